@@ -12,6 +12,8 @@ export default [
       globals: {
         ...globals.browser,
         React: 'readonly',
+        // Replaced by bundlers to strip development-only code
+        process: 'readonly',
       },
     },
     plugins: {
@@ -0,0 +1,144 @@
+import React from 'react';
+import { describe, it, expect, vi } from 'vitest';
+import { createSelectiveContext } from '../index';
+import { render, screen, fireEvent, act } from '@testing-library/react';
+
+const createCounterContext = () =>
+  createSelectiveContext(
+    { count: 0, name: 'counter' },
+    {
+      actions: (set, get) => ({
+        increment() {
+          set((state) => ({ count: state.count + 1 }), 'increment');
+        },
+        incrementBy(amount: number) {
+          set({ count: get().count + amount });
+        },
+        rename(name: string) {
+          set({ name });
+        },
+        double: () => get().count * 2,
+      }),
+    }
+  );
+
+describe('actions', () => {
+  it('updates state through typed actions', () => {
+    const { Provider, useContext, useActions } = createCounterContext();
+
+    const Counter = () => {
+      const [count] = useContext((state) => state.count);
+      const [name] = useContext((state) => state.name);
+      return <span>{name}: {count}</span>;
+    };
+
+    const Buttons = () => {
+      const { increment, incrementBy, rename } = useActions();
+      return (
+        <div>
+          <button onClick={increment}>Increment</button>
+          <button onClick={() => incrementBy(10)}>Add ten</button>
+          <button onClick={() => rename('clicks')}>Rename</button>
+        </div>
+      );
+    };
+
+    render(
+      <Provider>
+        <Counter />
+        <Buttons />
+      </Provider>
+    );
+
+    fireEvent.click(screen.getByText('Increment'));
+    fireEvent.click(screen.getByText('Add ten'));
+    fireEvent.click(screen.getByText('Rename'));
+
+    expect(screen.getByText('clicks: 11')).toBeInTheDocument();
+  });
+
+  it('does not re-render components that only use actions', () => {
+    const { Provider, useActions } = createCounterContext();
+
+    const Buttons = vi.fn(() => {
+      const { increment } = useActions();
+      return <button onClick={increment}>Increment</button>;
+    });
+
+    render(
+      <Provider>
+        <Buttons />
+      </Provider>
+    );
+
+    Buttons.mockClear();
+    fireEvent.click(screen.getByText('Increment'));
+    fireEvent.click(screen.getByText('Increment'));
+
+    expect(Buttons).toHaveBeenCalledTimes(0);
+  });
+
+  it('returns stable actions bound to each Provider store', () => {
+    const { Provider, useActions, createStore } = createCounterContext();
+    const first = createStore();
+    const second = createStore({ count: 5 });
+    const seen: ReturnType<typeof useActions>[] = [];
+
+    const Collector = () => {
+      seen.push(useActions());
+      return null;
+    };
+
+    const { rerender } = render(
+      <>
+        <Provider store={first}>
+          <Collector />
+        </Provider>
+        <Provider store={second}>
+          <Collector />
+        </Provider>
+      </>
+    );
+
+    rerender(
+      <>
+        <Provider store={first}>
+          <Collector />
+        </Provider>
+        <Provider store={second}>
+          <Collector />
+        </Provider>
+      </>
+    );
+
+    expect(seen[0]).toBe(seen[2]);
+    expect(seen[1]).toBe(seen[3]);
+    expect(seen[0]).not.toBe(seen[1]);
+
+    act(() => {
+      seen[1].increment();
+    });
+
+    expect(first.getState().count).toBe(0);
+    expect(second.getState().count).toBe(6);
+    expect(seen[1].double()).toBe(12);
+  });
+
+  it('returns an empty object when no actions are defined', () => {
+    const { Provider, useActions } = createSelectiveContext({ count: 0 });
+    let actions: object | undefined;
+
+    const TestComponent = () => {
+      actions = useActions();
+      return null;
+    };
+
+    render(
+      <Provider>
+        <TestComponent />
+      </Provider>
+    );
+
+    expect(actions).toEqual({});
+  });
+});
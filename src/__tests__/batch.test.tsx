@@ -0,0 +1,127 @@
+import React from 'react';
+import { describe, it, expect, vi } from 'vitest';
+import { createSelectiveContext, createSelectiveStore } from '../index';
+import { render, screen, fireEvent } from '@testing-library/react';
+
+describe('batch', () => {
+  it('notifies subscribers and the update callback once', () => {
+    const updateCallback = vi.fn();
+    const listener = vi.fn();
+    const store = createSelectiveStore({ a: 0, b: 0 }, updateCallback);
+
+    store.subscribe(listener);
+    store.batch(() => {
+      store.setState({ a: 1 });
+      store.setState((state) => ({ b: state.a + 1 }));
+      store.setState({ a: 5 });
+    });
+
+    expect(store.getState()).toEqual({ a: 5, b: 2 });
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith({ a: 5, b: 2 }, { a: 0, b: 0 }, 'batch');
+    expect(updateCallback).toHaveBeenCalledTimes(1);
+    expect(updateCallback).toHaveBeenCalledWith({ a: 5, b: 2 });
+  });
+
+  it('names the batch with the given action', () => {
+    const listener = vi.fn();
+    const store = createSelectiveStore({ a: 0 });
+
+    store.subscribe(listener);
+    store.batch(() => store.setState({ a: 1 }), 'load');
+
+    expect(listener).toHaveBeenCalledWith({ a: 1 }, { a: 0 }, 'load');
+  });
+
+  it('rolls back every change when the batch throws', () => {
+    const listener = vi.fn();
+    const store = createSelectiveStore({ a: 0, b: 0 });
+
+    store.subscribe(listener);
+
+    expect(() =>
+      store.batch(() => {
+        store.setState({ a: 1 });
+        store.setState({ b: 1 });
+        throw new Error('Failed');
+      })
+    ).toThrow('Failed');
+
+    expect(store.getState()).toEqual({ a: 0, b: 0 });
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it('rolls back only the nested batch that threw', () => {
+    const listener = vi.fn();
+    const store = createSelectiveStore({ a: 0, b: 0 });
+
+    store.subscribe(listener);
+    store.batch(() => {
+      store.setState({ a: 1 });
+      try {
+        store.batch(() => {
+          store.setState({ b: 1 });
+          throw new Error('Failed');
+        });
+      } catch {
+        // Keep the outer batch going
+      }
+    });
+
+    expect(store.getState()).toEqual({ a: 1, b: 0 });
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not notify when nothing was set', () => {
+    const listener = vi.fn();
+    const store = createSelectiveStore({ a: 0 });
+
+    store.subscribe(listener);
+    store.batch(() => {});
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it('is available on the setter returned from useContext', () => {
+    const updateCallback = vi.fn();
+    const { Provider, useContext } = createSelectiveContext(
+      { count: 0, total: 0 },
+      updateCallback
+    );
+    let renders = 0;
+
+    const TestComponent = () => {
+      renders++;
+      const [state, setState] = useContext((state) => state);
+      return (
+        <button
+          onClick={() =>
+            setState.batch(() => {
+              for (let i = 0; i < 5; i++) {
+                setState((state) => ({
+                  count: state.count + 1,
+                  total: state.total + i,
+                }));
+              }
+            })
+          }
+        >
+          {state.count}/{state.total}
+        </button>
+      );
+    };
+
+    render(
+      <Provider>
+        <TestComponent />
+      </Provider>
+    );
+
+    renders = 0;
+    fireEvent.click(screen.getByText('0/0'));
+
+    expect(screen.getByText('5/10')).toBeInTheDocument();
+    expect(renders).toBe(1);
+    expect(updateCallback).toHaveBeenCalledTimes(1);
+  });
+});
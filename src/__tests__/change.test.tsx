@@ -0,0 +1,127 @@
+import React from 'react';
+import { describe, it, expect, vi } from 'vitest';
+import { createSelectiveContext, createSelectiveStore } from '../index';
+import { render, screen, fireEvent } from '@testing-library/react';
+
+describe('onChange', () => {
+  it('receives the real state objects and the changed keys', () => {
+    const onChange = vi.fn();
+    const createdAt = new Date(0);
+    const tags = new Set(['a']);
+    const store = createSelectiveStore(
+      { createdAt, tags, count: 0, note: undefined as string | undefined },
+      { onChange }
+    );
+    const prev = store.getState();
+
+    store.setState({ count: 1, tags }, 'increment');
+
+    expect(onChange).toHaveBeenCalledTimes(1);
+    const change = onChange.mock.calls[0][0];
+    expect(change.prev).toBe(prev);
+    expect(change.next).toBe(store.getState());
+    expect(change.next.createdAt).toBe(createdAt);
+    expect(change.next.tags).toBe(tags);
+    expect(change.changedKeys).toEqual(['count']);
+    expect(change.partial).toEqual({ count: 1, tags });
+    expect(change.action).toBe('increment');
+  });
+
+  it('handles cyclic state', () => {
+    const onChange = vi.fn();
+    const node: { self?: unknown } = {};
+    node.self = node;
+    const store = createSelectiveStore({ node, count: 0 }, { onChange });
+
+    store.setState({ count: 1 });
+
+    expect(onChange.mock.calls[0][0].next.node).toBe(node);
+  });
+
+  it('reports the merged partial of a batch', () => {
+    const onChange = vi.fn();
+    const store = createSelectiveStore({ a: 0, b: 0, c: 0 }, { onChange });
+
+    store.batch(() => {
+      store.setState({ a: 1 });
+      store.setState({ b: 1 });
+      store.setState({ b: 0 });
+    });
+
+    expect(onChange).toHaveBeenCalledTimes(1);
+    expect(onChange.mock.calls[0][0]).toMatchObject({
+      changedKeys: ['a'],
+      partial: { a: 1, b: 0 },
+      action: 'batch',
+    });
+  });
+
+  it('reports added keys', () => {
+    const onChange = vi.fn();
+    const store = createSelectiveStore<Record<string, number | undefined>>(
+      {},
+      { onChange }
+    );
+
+    store.setState({ added: undefined });
+
+    expect(onChange.mock.calls[0][0].changedKeys).toEqual(['added']);
+  });
+
+  it('skips subscribers and callbacks when nothing changed', () => {
+    const onChange = vi.fn();
+    const updateCallback = vi.fn();
+    const listener = vi.fn();
+    const store = createSelectiveStore(
+      { count: 1, user: { name: 'John' } },
+      { onChange, updateCallback }
+    );
+    const state = store.getState();
+
+    store.subscribe(listener);
+    store.setState({ count: 1 });
+    store.setState((state) => ({ user: state.user }));
+    store.batch(() => {
+      store.setState({ count: 2 });
+      store.setState({ count: 1 });
+    });
+
+    expect(store.getState()).toBe(state);
+    expect(listener).not.toHaveBeenCalled();
+    expect(onChange).not.toHaveBeenCalled();
+    expect(updateCallback).not.toHaveBeenCalled();
+  });
+
+  it('is passed through createSelectiveContext', () => {
+    const onChange = vi.fn();
+    const { Provider, useContext } = createSelectiveContext(
+      { count: 0 },
+      { onChange }
+    );
+
+    const TestComponent = () => {
+      const [count, setState] = useContext((state) => state.count);
+      return (
+        <button onClick={() => setState({ count: count + 1 })}>
+          Count: {count}
+        </button>
+      );
+    };
+
+    render(
+      <Provider>
+        <TestComponent />
+      </Provider>
+    );
+
+    fireEvent.click(screen.getByText('Count: 0'));
+
+    expect(onChange).toHaveBeenCalledWith(
+      expect.objectContaining({
+        prev: { count: 0 },
+        next: { count: 1 },
+        changedKeys: ['count'],
+      })
+    );
+  });
+});
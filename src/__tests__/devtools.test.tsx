@@ -0,0 +1,331 @@
+import React, { StrictMode } from 'react';
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { createSelectiveContext, type DevtoolsMessage } from '../index';
+import { render, screen, fireEvent, act } from '@testing-library/react';
+
+const createFakeExtension = () => {
+  const listeners: ((message: DevtoolsMessage) => void)[] = [];
+  const connection = {
+    init: vi.fn(),
+    send: vi.fn(),
+    subscribe: vi.fn((listener: (message: DevtoolsMessage) => void) => {
+      listeners.push(listener);
+      return () => listeners.splice(listeners.indexOf(listener), 1);
+    }),
+  };
+  const extension = { connect: vi.fn(() => connection) };
+  const dispatch = (message: DevtoolsMessage) =>
+    listeners.forEach((listener) => listener(message));
+
+  return { extension, connection, dispatch };
+};
+
+describe('devtools', () => {
+  afterEach(() => {
+    delete window.__REDUX_DEVTOOLS_EXTENSION__;
+  });
+
+  it('does nothing when the extension is absent', () => {
+    const { createStore } = createSelectiveContext(
+      { count: 0 },
+      { devtools: true }
+    );
+    const store = createStore();
+
+    store.setState({ count: 1 });
+
+    expect(store.getState()).toEqual({ count: 1 });
+  });
+
+  it('sends the initial state and every update as a named action', () => {
+    const { extension, connection } = createFakeExtension();
+    window.__REDUX_DEVTOOLS_EXTENSION__ = extension;
+    const { createStore } = createSelectiveContext(
+      { count: 0 },
+      { devtools: { name: 'Counter' } }
+    );
+    const store = createStore();
+
+    store.setState({ count: 1 }, 'increment');
+    store.setState({ count: 2 });
+
+    expect(extension.connect).toHaveBeenCalledWith({ name: 'Counter' });
+    expect(connection.init).toHaveBeenCalledWith({ count: 0 });
+    expect(connection.send).toHaveBeenNthCalledWith(
+      1,
+      { type: 'increment' },
+      { count: 1 }
+    );
+    expect(connection.send).toHaveBeenNthCalledWith(
+      2,
+      { type: 'setState' },
+      { count: 2 }
+    );
+  });
+
+  it('applies jump-to-state messages without sending them back', () => {
+    const { extension, connection, dispatch } = createFakeExtension();
+    window.__REDUX_DEVTOOLS_EXTENSION__ = extension;
+    const { Provider, useContext } = createSelectiveContext(
+      { count: 0 },
+      { devtools: true }
+    );
+
+    const TestComponent = () => {
+      const [count, setState] = useContext((state) => state.count);
+      return (
+        <button onClick={() => setState({ count: count + 1 })}>
+          Count: {count}
+        </button>
+      );
+    };
+
+    render(
+      <Provider>
+        <TestComponent />
+      </Provider>
+    );
+
+    fireEvent.click(screen.getByText('Count: 0'));
+    fireEvent.click(screen.getByText('Count: 1'));
+    connection.send.mockClear();
+
+    act(() => {
+      dispatch({
+        type: 'DISPATCH',
+        state: JSON.stringify({ count: 1 }),
+        payload: { type: 'JUMP_TO_STATE' },
+      });
+    });
+
+    expect(screen.getByText('Count: 1')).toBeInTheDocument();
+    expect(connection.send).not.toHaveBeenCalled();
+  });
+
+  it('resets to the initial state', () => {
+    const { extension, connection, dispatch } = createFakeExtension();
+    window.__REDUX_DEVTOOLS_EXTENSION__ = extension;
+    const { createStore } = createSelectiveContext(
+      { count: 0 },
+      { devtools: true }
+    );
+    const store = createStore({ count: 10 });
+
+    store.setState({ count: 11 });
+    dispatch({ type: 'DISPATCH', payload: { type: 'RESET' } });
+
+    expect(store.getState()).toEqual({ count: 10 });
+    expect(connection.init).toHaveBeenLastCalledWith({ count: 10 });
+  });
+
+  it('replaces the state on jump and reset, removing added keys', () => {
+    const { extension, dispatch } = createFakeExtension();
+    window.__REDUX_DEVTOOLS_EXTENSION__ = extension;
+    const { createStore } = createSelectiveContext<Record<string, number>>(
+      { a: 1 },
+      { devtools: true }
+    );
+    const store = createStore();
+
+    store.setState({ b: 2 }, 'add b');
+    store.setState({ c: 3 }, 'add c');
+    dispatch({
+      type: 'DISPATCH',
+      state: JSON.stringify({ a: 1, b: 2 }),
+      payload: { type: 'JUMP_TO_ACTION' },
+    });
+
+    expect(store.getState()).toEqual({ a: 1, b: 2 });
+
+    dispatch({ type: 'DISPATCH', payload: { type: 'RESET' } });
+
+    expect(store.getState()).toEqual({ a: 1 });
+  });
+
+  it('does not record, save or broadcast time travel', () => {
+    const { extension, dispatch } = createFakeExtension();
+    window.__REDUX_DEVTOOLS_EXTENSION__ = extension;
+    const channel = { send: vi.fn(), subscribe: () => () => {}, close() {} };
+    const { Provider, createStore, useHistory } = createSelectiveContext(
+      { count: 0 },
+      {
+        devtools: true,
+        history: true,
+        persist: { key: 'devtools-count', storage: 'sessionStorage' },
+        sync: { name: 'count', channel: () => channel },
+      }
+    );
+    const store = createStore();
+
+    const Undo = () => {
+      const undo = useHistory((history) => history.undo);
+      return <button onClick={undo}>Undo</button>;
+    };
+
+    render(
+      <Provider store={store}>
+        <Undo />
+      </Provider>
+    );
+
+    act(() => {
+      store.setState({ count: 1 });
+    });
+    const saved = sessionStorage.getItem('devtools-count');
+    channel.send.mockClear();
+    act(() => {
+      dispatch({
+        type: 'DISPATCH',
+        state: JSON.stringify({ count: 0 }),
+        payload: { type: 'JUMP_TO_STATE' },
+      });
+    });
+
+    expect(store.getState()).toEqual({ count: 0 });
+    expect(sessionStorage.getItem('devtools-count')).toBe(saved);
+    expect(channel.send).not.toHaveBeenCalled();
+
+    // A recorded jump would be undone back to 1
+    fireEvent.click(screen.getByText('Undo'));
+    expect(store.getState()).toEqual({ count: 0 });
+
+    sessionStorage.clear();
+  });
+
+  it('imports the last computed state', () => {
+    const { extension, connection, dispatch } = createFakeExtension();
+    window.__REDUX_DEVTOOLS_EXTENSION__ = extension;
+    const { createStore } = createSelectiveContext(
+      { count: 0 },
+      { devtools: true }
+    );
+    const store = createStore();
+    const nextLiftedState = {
+      computedStates: [{ state: { count: 4 } }, { state: { count: 5 } }],
+    };
+
+    dispatch({
+      type: 'DISPATCH',
+      payload: { type: 'IMPORT_STATE', nextLiftedState },
+    });
+
+    expect(store.getState()).toEqual({ count: 5 });
+    expect(connection.send).toHaveBeenCalledWith(null, nextLiftedState);
+  });
+
+  it('ignores messages that are not dispatches', () => {
+    const { extension, dispatch } = createFakeExtension();
+    window.__REDUX_DEVTOOLS_EXTENSION__ = extension;
+    const { createStore } = createSelectiveContext(
+      { count: 0 },
+      { devtools: true }
+    );
+    const store = createStore();
+
+    dispatch({ type: 'START' });
+    dispatch({ type: 'ACTION', payload: { type: 'JUMP_TO_STATE' } });
+
+    expect(store.getState()).toEqual({ count: 0 });
+  });
+
+  it('disconnects from the extension when the store is destroyed', () => {
+    const { extension, connection, dispatch } = createFakeExtension();
+    window.__REDUX_DEVTOOLS_EXTENSION__ = extension;
+    const { createStore } = createSelectiveContext(
+      { count: 0 },
+      { devtools: true }
+    );
+    const store = createStore();
+
+    store.destroy();
+    store.setState({ count: 1 });
+    dispatch({
+      type: 'DISPATCH',
+      state: JSON.stringify({ count: 5 }),
+      payload: { type: 'JUMP_TO_STATE' },
+    });
+
+    expect(connection.send).not.toHaveBeenCalled();
+    expect(store.getState()).toEqual({ count: 1 });
+  });
+
+  it('stays connected through the StrictMode remount', async () => {
+    const { extension, connection } = createFakeExtension();
+    window.__REDUX_DEVTOOLS_EXTENSION__ = extension;
+    const { Provider, useContext } = createSelectiveContext(
+      { count: 0 },
+      { devtools: true }
+    );
+
+    const TestComponent = () => {
+      const [count, setState] = useContext((state) => state.count);
+      return (
+        <button onClick={() => setState({ count: count + 1 })}>
+          Count: {count}
+        </button>
+      );
+    };
+
+    render(
+      <StrictMode>
+        <Provider>
+          <TestComponent />
+        </Provider>
+      </StrictMode>
+    );
+    await act(async () => {});
+
+    fireEvent.click(screen.getByText('Count: 0'));
+
+    expect(screen.getByText('Count: 1')).toBeInTheDocument();
+    expect(connection.send).toHaveBeenLastCalledWith(
+      { type: 'setState' },
+      { count: 1 }
+    );
+  });
+
+  it('connects Provider stores only once they are mounted', () => {
+    const { extension } = createFakeExtension();
+    window.__REDUX_DEVTOOLS_EXTENSION__ = extension;
+    const { Provider } = createSelectiveContext(
+      { count: 0 },
+      { devtools: true }
+    );
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const Broken = () => {
+      throw new Error('render failed');
+    };
+
+    class Boundary extends React.Component<
+      { children: React.ReactNode },
+      { failed: boolean }
+    > {
+      state = { failed: false };
+
+      static getDerivedStateFromError() {
+        return { failed: true };
+      }
+
+      render() {
+        return this.state.failed ? 'Failed' : this.props.children;
+      }
+    }
+
+    render(
+      <Boundary>
+        <Provider>
+          <Broken />
+        </Provider>
+      </Boundary>
+    );
+
+    expect(screen.getByText('Failed')).toBeInTheDocument();
+    expect(extension.connect).not.toHaveBeenCalled();
+
+    render(<Provider>{null}</Provider>);
+    expect(extension.connect).toHaveBeenCalledTimes(1);
+
+    error.mockRestore();
+  });
+});
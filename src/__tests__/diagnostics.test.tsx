@@ -0,0 +1,115 @@
+import React from 'react';
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { createSelectiveContext, shallowEqual } from '../index';
+import { render, act } from '@testing-library/react';
+
+describe('named contexts and diagnostics', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.unstubAllEnvs();
+  });
+
+  it('sets displayName on Context and Provider', () => {
+    const { Context, Provider } = createSelectiveContext(
+      { items: [] },
+      { name: 'Cart' }
+    );
+
+    expect(Context.displayName).toBe('CartContext');
+    expect(Provider.displayName).toBe('CartProvider');
+  });
+
+  it('names the missing Provider in the error message', () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const { useContext } = createSelectiveContext(
+      { items: [] },
+      { name: 'Cart' }
+    );
+
+    const Orphan = () => {
+      useContext((state) => state.items);
+      return null;
+    };
+
+    expect(() => render(<Orphan />)).toThrow(
+      'useCart must be used inside <CartProvider>'
+    );
+  });
+
+  it('warns once about selectors returning new references', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const { Provider, useContext, createStore } = createSelectiveContext(
+      { a: 1, b: 2 },
+      { name: 'Pair' }
+    );
+    const store = createStore();
+
+    const Unstable = () => {
+      const [pair] = useContext((state) => ({ a: state.a, b: state.b }));
+      return <span>{pair.a}</span>;
+    };
+
+    const Stable = () => {
+      const [pair] = useContext(
+        (state) => ({ a: state.a, b: state.b }),
+        shallowEqual
+      );
+      return <span>{pair.b}</span>;
+    };
+
+    render(
+      <Provider store={store}>
+        <Unstable />
+        <Stable />
+      </Provider>
+    );
+    act(() => store.setState({ a: 2 }));
+
+    expect(warn).toHaveBeenCalledTimes(1);
+    expect(warn.mock.calls[0][0]).toContain(
+      'usePair: the selector returned a new reference'
+    );
+  });
+
+  it('reports selectors that throw', () => {
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const { Provider, useContext } = createSelectiveContext({
+      user: null as { name: string } | null,
+    });
+
+    const Name = () => {
+      const [name] = useContext((state) => state.user!.name);
+      return <span>{name}</span>;
+    };
+
+    expect(() =>
+      render(
+        <Provider>
+          <Name />
+        </Provider>
+      )
+    ).toThrow();
+    expect(error.mock.calls[0][0]).toBe(
+      'useContext: the selector threw an error'
+    );
+  });
+
+  it('skips the diagnostics in production', () => {
+    vi.stubEnv('NODE_ENV', 'production');
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const { Provider, useContext } = createSelectiveContext({ a: 1 });
+
+    const Unstable = () => {
+      const [value] = useContext((state) => ({ a: state.a }));
+      return <span>{value.a}</span>;
+    };
+
+    render(
+      <Provider>
+        <Unstable />
+      </Provider>
+    );
+
+    expect(warn).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,214 @@
+import React from 'react';
+import { describe, it, expect, vi } from 'vitest';
+import { createSelectiveContext, createSelectiveStore } from '../index';
+import { render, screen, fireEvent } from '@testing-library/react';
+
+interface TodoState {
+  todos: { id: number; text: string; done: boolean }[];
+  filter: { status: string };
+  count: number;
+}
+
+const createTodoStore = () =>
+  createSelectiveStore<TodoState>({
+    todos: [
+      { id: 1, text: 'Write', done: false },
+      { id: 2, text: 'Test', done: false },
+      { id: 3, text: 'Ship', done: false },
+    ],
+    filter: { status: 'all' },
+    count: 0,
+  });
+
+describe('draft updates', () => {
+  it('produces a new state from mutations', () => {
+    const store = createTodoStore();
+    const before = store.getState();
+
+    store.setState.draft((draft) => {
+      draft.todos[1].done = true;
+      draft.count += 1;
+    });
+
+    const after = store.getState();
+    expect(after.todos[1]).toEqual({ id: 2, text: 'Test', done: true });
+    expect(after.count).toBe(1);
+    expect(before.todos[1].done).toBe(false);
+    expect(before.count).toBe(0);
+  });
+
+  it('shares untouched branches', () => {
+    const store = createTodoStore();
+    const before = store.getState();
+
+    store.setState.draft((draft) => {
+      draft.todos[1].done = true;
+    });
+
+    const after = store.getState();
+    expect(after.todos).not.toBe(before.todos);
+    expect(after.todos[1]).not.toBe(before.todos[1]);
+    expect(after.todos[0]).toBe(before.todos[0]);
+    expect(after.todos[2]).toBe(before.todos[2]);
+    expect(after.filter).toBe(before.filter);
+  });
+
+  it('supports array methods and deletions', () => {
+    const store = createSelectiveStore({
+      items: [3, 1, 2],
+      users: { a: { name: 'A' }, b: { name: 'B' } } as Record<
+        string,
+        { name: string }
+      >,
+    });
+
+    store.setState.draft((draft) => {
+      draft.items.push(4);
+      draft.items.sort();
+      delete draft.users.a;
+    });
+
+    expect(store.getState()).toEqual({
+      items: [1, 2, 3, 4],
+      users: { b: { name: 'B' } },
+    });
+  });
+
+  it('replaces drafts assigned to new values', () => {
+    const store = createTodoStore();
+    const before = store.getState();
+
+    store.setState.draft((draft) => {
+      draft.todos = draft.todos.filter((todo) => todo.id !== 2);
+      draft.todos[0].text = 'Write more';
+    });
+
+    const after = store.getState();
+    expect(after.todos).toEqual([
+      { id: 1, text: 'Write more', done: false },
+      { id: 3, text: 'Ship', done: false },
+    ]);
+    expect(after.todos[1]).toBe(before.todos[2]);
+    expect(() => JSON.stringify(after)).not.toThrow();
+  });
+
+  it('keeps passing the plain state to updater functions', () => {
+    const store = createTodoStore();
+    const before = store.getState();
+    const removed = before.todos[1];
+    let captured: TodoState | undefined;
+
+    store.setState((state) => {
+      captured = state;
+      return { todos: state.todos.filter((todo) => todo !== removed) };
+    });
+
+    const after = store.getState();
+    expect(captured).toBe(before);
+    expect(captured!.todos[0].text).toBe('Write');
+    expect(after.todos).toHaveLength(2);
+    expect(after.todos[0]).toBe(before.todos[0]);
+    expect(after.filter).toBe(before.filter);
+  });
+
+  it('rejects top-level deletions', () => {
+    const store = createSelectiveStore<Record<string, number>>({ a: 1, b: 2 });
+    const listener = vi.fn();
+
+    store.subscribe(listener);
+
+    expect(() =>
+      store.setState.draft((draft) => {
+        delete draft.b;
+      })
+    ).toThrow('Top-level keys cannot be deleted from a draft (b)');
+    expect(store.getState()).toEqual({ a: 1, b: 2 });
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it('merges mutations with a returned partial', () => {
+    const store = createTodoStore();
+
+    store.setState.draft((draft) => {
+      draft.filter.status = 'done';
+      return { count: 5 };
+    });
+
+    expect(store.getState().filter).toEqual({ status: 'done' });
+    expect(store.getState().count).toBe(5);
+  });
+
+  it('does not notify when the draft is not changed', () => {
+    const store = createTodoStore();
+    const listener = vi.fn();
+
+    store.subscribe(listener);
+    store.setState.draft((draft) => {
+      draft.count = 0;
+      draft.todos[0].done = false;
+    });
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it('passes only the changed keys to middleware', () => {
+    const seen = vi.fn();
+    const store = createSelectiveStore(
+      { a: { value: 1 }, b: { value: 1 } },
+      {
+        middleware: [
+          () => (next) => (partial, action) => {
+            seen(partial);
+            next(partial, action);
+          },
+        ],
+      }
+    );
+
+    store.setState.draft((draft) => {
+      draft.a.value = 2;
+    });
+
+    expect(seen).toHaveBeenCalledWith({ a: { value: 2 } });
+  });
+
+  it('works with the setter returned from useContext', () => {
+    const { Provider, useContext } = createSelectiveContext<TodoState>({
+      todos: [
+        { id: 1, text: 'Write', done: false },
+        { id: 2, text: 'Test', done: false },
+      ],
+      filter: { status: 'all' },
+      count: 0,
+    });
+
+    const Todo = vi.fn(({ index }: { index: number }) => {
+      const [todo, setState] = useContext((state) => state.todos[index]);
+      return (
+        <button
+          onClick={() =>
+            setState.draft((draft) => {
+              draft.todos[index].done = !draft.todos[index].done;
+            })
+          }
+        >
+          {todo.text}: {todo.done ? 'done' : 'open'}
+        </button>
+      );
+    });
+
+    render(
+      <Provider>
+        <Todo index={0} />
+        <Todo index={1} />
+      </Provider>
+    );
+
+    Todo.mockClear();
+    fireEvent.click(screen.getByText('Test: open'));
+
+    expect(screen.getByText('Test: done')).toBeInTheDocument();
+    expect(screen.getByText('Write: open')).toBeInTheDocument();
+    expect(Todo).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,198 @@
+import React from 'react';
+import { describe, it, expect, vi } from 'vitest';
+import { createSelectiveContext, shallowEqual, deepEqual } from '../index';
+import { render, screen, fireEvent } from '@testing-library/react';
+
+describe('Equality functions', () => {
+  describe('shallowEqual', () => {
+    it('compares first-level entries by identity', () => {
+      const shared = { id: 1 };
+
+      expect(shallowEqual({ a: 1, b: shared }, { a: 1, b: shared })).toBe(true);
+      expect(shallowEqual([1, shared], [1, shared])).toBe(true);
+      expect(shallowEqual({ a: 1, b: { id: 1 } }, { a: 1, b: { id: 1 } })).toBe(
+        false
+      );
+      expect(shallowEqual({ a: 1 }, { a: 1, b: 2 })).toBe(false);
+      expect(shallowEqual([1, 2], { 0: 1, 1: 2 } as any)).toBe(false);
+    });
+
+    it('compares Map and Set entries', () => {
+      expect(shallowEqual(new Map([['a', 1]]), new Map([['a', 1]]))).toBe(true);
+      expect(shallowEqual(new Set([1, 2]), new Set([1, 2]))).toBe(true);
+      expect(shallowEqual(new Set([1, 2]), new Set([1, 3]))).toBe(false);
+    });
+  });
+
+  describe('deepEqual', () => {
+    it('compares nested structures', () => {
+      expect(
+        deepEqual(
+          { user: { tags: ['a', 'b'], born: new Date(0) } },
+          { user: { tags: ['a', 'b'], born: new Date(0) } }
+        )
+      ).toBe(true);
+      expect(deepEqual({ user: { tags: ['a'] } }, { user: { tags: ['b'] } })).toBe(
+        false
+      );
+      expect(
+        deepEqual(new Map([['a', { x: 1 }]]), new Map([['a', { x: 1 }]]))
+      ).toBe(true);
+      expect(deepEqual(NaN, NaN)).toBe(true);
+      expect(deepEqual(null, {})).toBe(false);
+    });
+  });
+
+  describe('useContext with equalityFn', () => {
+    it('does not loop when a selector returns a new object', () => {
+      const { Provider, useContext } = createSelectiveContext({ a: 1, b: 2 });
+      const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+      const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+      const TestComponent = () => {
+        const [{ a, b }] = useContext((state) => ({ a: state.a, b: state.b }));
+        return <span>Sum: {a + b}</span>;
+      };
+
+      render(
+        <Provider>
+          <TestComponent />
+        </Provider>
+      );
+
+      expect(screen.getByText('Sum: 3')).toBeInTheDocument();
+      expect(consoleSpy).not.toHaveBeenCalled();
+      expect(warnSpy).toHaveBeenCalledTimes(1);
+      expect(warnSpy.mock.calls[0][0]).toContain(
+        'useContext: the selector returned a new reference'
+      );
+
+      consoleSpy.mockRestore();
+      warnSpy.mockRestore();
+    });
+
+    it('skips re-renders when shallowEqual selections are equal', () => {
+      const { Provider, useContext } = createSelectiveContext({
+        a: 1,
+        b: 2,
+        other: 0,
+      });
+
+      const Selected = vi.fn(() => {
+        const [{ a, b }] = useContext(
+          (state) => ({ a: state.a, b: state.b }),
+          shallowEqual
+        );
+        return <span>Values: {a},{b}</span>;
+      });
+
+      const Controls = () => {
+        const [, setState] = useContext(() => null);
+        return (
+          <div>
+            <button onClick={() => setState((state) => ({ other: state.other + 1 }))}>
+              Other
+            </button>
+            <button onClick={() => setState({ a: 10 })}>Change A</button>
+          </div>
+        );
+      };
+
+      render(
+        <Provider>
+          <Selected />
+          <Controls />
+        </Provider>
+      );
+
+      Selected.mockClear();
+
+      fireEvent.click(screen.getByText('Other'));
+      expect(Selected).toHaveBeenCalledTimes(0);
+
+      fireEvent.click(screen.getByText('Change A'));
+      expect(Selected).toHaveBeenCalledTimes(1);
+      expect(screen.getByText('Values: 10,2')).toBeInTheDocument();
+    });
+
+    it('keeps the cached array reference for filtered selections', () => {
+      const { Provider, useContext } = createSelectiveContext({
+        items: [
+          { id: 1, done: true },
+          { id: 2, done: false },
+        ],
+        filter: 'done',
+      });
+      const references: unknown[] = [];
+
+      const DoneItems = () => {
+        const [done] = useContext(
+          (state) => state.items.filter((item) => item.done),
+          shallowEqual
+        );
+        references.push(done);
+        return <span>Done: {done.length}</span>;
+      };
+
+      const Controls = () => {
+        const [, setState] = useContext(() => null);
+        return (
+          <button onClick={() => setState({ filter: 'all' })}>Filter</button>
+        );
+      };
+
+      render(
+        <Provider>
+          <DoneItems />
+          <Controls />
+        </Provider>
+      );
+
+      fireEvent.click(screen.getByText('Filter'));
+
+      expect(screen.getByText('Done: 1')).toBeInTheDocument();
+      expect(new Set(references).size).toBe(1);
+    });
+
+    it('re-renders nested selections only on deep changes with deepEqual', () => {
+      const { Provider, useContext } = createSelectiveContext({
+        user: { profile: { name: 'John' } },
+      });
+
+      const Profile = vi.fn(() => {
+        const [profile] = useContext((state) => state.user.profile, deepEqual);
+        return <span>Name: {profile.name}</span>;
+      });
+
+      const Controls = () => {
+        const [, setState] = useContext(() => null);
+        return (
+          <div>
+            <button onClick={() => setState({ user: { profile: { name: 'John' } } })}>
+              Same
+            </button>
+            <button onClick={() => setState({ user: { profile: { name: 'Jane' } } })}>
+              Different
+            </button>
+          </div>
+        );
+      };
+
+      render(
+        <Provider>
+          <Profile />
+          <Controls />
+        </Provider>
+      );
+
+      Profile.mockClear();
+
+      fireEvent.click(screen.getByText('Same'));
+      expect(Profile).toHaveBeenCalledTimes(0);
+
+      fireEvent.click(screen.getByText('Different'));
+      expect(Profile).toHaveBeenCalledTimes(1);
+      expect(screen.getByText('Name: Jane')).toBeInTheDocument();
+    });
+  });
+});
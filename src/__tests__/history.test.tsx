@@ -0,0 +1,294 @@
+import React from 'react';
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { createSelectiveContext, type PersistStorage } from '../index';
+import { render, screen, fireEvent, act } from '@testing-library/react';
+
+describe('history', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('undoes and redoes updates', () => {
+    const { createStore, Provider, useContext, useHistory } =
+      createSelectiveContext({ text: '' }, { history: true });
+    const store = createStore();
+
+    const Editor = () => {
+      const [text] = useContext((state) => state.text);
+      const canUndo = useHistory((history) => history.canUndo);
+      const canRedo = useHistory((history) => history.canRedo);
+      const undo = useHistory((history) => history.undo);
+      const redo = useHistory((history) => history.redo);
+      return (
+        <div>
+          <span>Text: {text}</span>
+          <button
+            disabled={!canUndo}
+            onClick={undo}
+          >
+            Undo
+          </button>
+          <button
+            disabled={!canRedo}
+            onClick={redo}
+          >
+            Redo
+          </button>
+        </div>
+      );
+    };
+
+    render(
+      <Provider store={store}>
+        <Editor />
+      </Provider>
+    );
+
+    expect(screen.getByText('Undo')).toBeDisabled();
+
+    fireEvent.click(screen.getByText('Undo'));
+    expect(store.getState()).toEqual({ text: '' });
+
+    act(() => {
+      store.setState({ text: 'a' });
+      store.setState({ text: 'ab' });
+    });
+
+    fireEvent.click(screen.getByText('Undo'));
+    expect(screen.getByText('Text: a')).toBeInTheDocument();
+    expect(screen.getByText('Redo')).toBeEnabled();
+
+    fireEvent.click(screen.getByText('Undo'));
+    expect(screen.getByText('Text:')).toBeInTheDocument();
+    expect(screen.getByText('Undo')).toBeDisabled();
+
+    fireEvent.click(screen.getByText('Redo'));
+    fireEvent.click(screen.getByText('Redo'));
+    expect(screen.getByText('Text: ab')).toBeInTheDocument();
+    expect(screen.getByText('Redo')).toBeDisabled();
+  });
+
+  it('clears the redo stack on a new update', () => {
+    const { createStore, Provider, useHistory } = createSelectiveContext(
+      { count: 0 },
+      { history: true }
+    );
+    const store = createStore();
+    let history: any;
+
+    const TestComponent = () => {
+      history = useHistory((history) => history);
+      return null;
+    };
+
+    render(
+      <Provider store={store}>
+        <TestComponent />
+      </Provider>
+    );
+
+    act(() => {
+      store.setState({ count: 1 });
+      history.undo();
+    });
+    expect(history.canRedo).toBe(true);
+
+    act(() => {
+      store.setState({ count: 2 });
+    });
+    expect(history.canRedo).toBe(false);
+  });
+
+  it('records only the selected keys', () => {
+    const { createStore, Provider, useHistory } = createSelectiveContext(
+      { text: '', cursor: 0 },
+      { history: { keys: ['text'] } }
+    );
+    const store = createStore();
+    let undo = () => {};
+
+    const TestComponent = () => {
+      undo = useHistory((history) => history.undo);
+      return null;
+    };
+
+    render(
+      <Provider store={store}>
+        <TestComponent />
+      </Provider>
+    );
+
+    act(() => {
+      store.setState({ text: 'hello', cursor: 5 });
+      store.setState({ cursor: 2 });
+      undo();
+    });
+
+    expect(store.getState()).toEqual({ text: '', cursor: 2 });
+  });
+
+  it('removes keys added after the restored snapshot', () => {
+    const { createStore, useHistory, Provider } = createSelectiveContext<
+      Record<string, string>
+    >({ text: '' }, { history: true });
+    const store = createStore();
+    let history!: { undo: () => void; redo: () => void };
+
+    const TestComponent = () => {
+      history = useHistory((history) => history);
+      return null;
+    };
+
+    render(
+      <Provider store={store}>
+        <TestComponent />
+      </Provider>
+    );
+
+    act(() => store.setState({ draft: 'unsaved' }));
+    act(() => history.undo());
+    expect(store.getState()).toEqual({ text: '' });
+
+    act(() => history.redo());
+    expect(store.getState()).toEqual({ text: '', draft: 'unsaved' });
+  });
+
+  it('does not record the hydration of an async storage', async () => {
+    let resolve = (_value: string | null) => {};
+    const storage: PersistStorage = {
+      getItem: () => new Promise((done) => (resolve = done)),
+      setItem: async () => {},
+      removeItem: async () => {},
+    };
+    const { createStore, Provider, useHistory } = createSelectiveContext(
+      { text: '' },
+      { persist: { key: 'editor', storage }, history: true }
+    );
+    const store = createStore();
+    let history!: { canUndo: boolean; undo: () => void };
+
+    const TestComponent = () => {
+      history = useHistory((history) => history);
+      return null;
+    };
+
+    render(
+      <Provider store={store}>
+        <TestComponent />
+      </Provider>
+    );
+
+    await act(async () => {
+      resolve(JSON.stringify({ state: { text: 'saved' }, version: 0 }));
+    });
+
+    expect(store.getState()).toEqual({ text: 'saved' });
+    expect(history.canUndo).toBe(false);
+
+    act(() => store.setState({ text: 'edited' }));
+    act(() => history.undo());
+
+    expect(store.getState()).toEqual({ text: 'saved' });
+    expect(history.canUndo).toBe(false);
+  });
+
+  it('drops the oldest entries beyond the limit', () => {
+    const { createStore, Provider, useHistory } = createSelectiveContext(
+      { count: 0 },
+      { history: { limit: 2 } }
+    );
+    const store = createStore();
+    let history: any;
+
+    const TestComponent = () => {
+      history = useHistory((history) => history);
+      return null;
+    };
+
+    render(
+      <Provider store={store}>
+        <TestComponent />
+      </Provider>
+    );
+
+    act(() => {
+      store.setState({ count: 1 });
+      store.setState({ count: 2 });
+      store.setState({ count: 3 });
+      history.undo();
+      history.undo();
+      history.undo();
+    });
+
+    expect(store.getState()).toEqual({ count: 1 });
+    expect(history.canUndo).toBe(false);
+  });
+
+  it('groups rapid updates into a single entry', () => {
+    vi.useFakeTimers();
+    const { createStore, Provider, useHistory } = createSelectiveContext(
+      { text: '' },
+      { history: { groupDelay: 500 } }
+    );
+    const store = createStore();
+    let undo = () => {};
+
+    const TestComponent = () => {
+      undo = useHistory((history) => history.undo);
+      return null;
+    };
+
+    render(
+      <Provider store={store}>
+        <TestComponent />
+      </Provider>
+    );
+
+    act(() => {
+      store.setState({ text: 'h' });
+      vi.advanceTimersByTime(100);
+      store.setState({ text: 'he' });
+      vi.advanceTimersByTime(100);
+      store.setState({ text: 'hey' });
+      vi.advanceTimersByTime(1000);
+      store.setState({ text: 'hey you' });
+    });
+
+    act(() => {
+      undo();
+    });
+    expect(store.getState()).toEqual({ text: 'hey' });
+
+    act(() => {
+      undo();
+    });
+    expect(store.getState()).toEqual({ text: '' });
+  });
+
+  it('clears the history', () => {
+    const { createStore, Provider, useHistory } = createSelectiveContext(
+      { count: 0 },
+      { history: true }
+    );
+    const store = createStore();
+    let history: any;
+
+    const TestComponent = () => {
+      history = useHistory((history) => history);
+      return <span>{history.canUndo ? 'Can undo' : 'Nothing to undo'}</span>;
+    };
+
+    render(
+      <Provider store={store}>
+        <TestComponent />
+      </Provider>
+    );
+
+    act(() => {
+      store.setState({ count: 1 });
+      history.clearHistory();
+    });
+
+    expect(screen.getByText('Nothing to undo')).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,197 @@
+import React from 'react';
+import { describe, it, expect, vi } from 'vitest';
+import {
+  createSelectiveContext,
+  createSelectiveStore,
+  type UpdateMetrics,
+} from '../index';
+import { render, screen, fireEvent, act } from '@testing-library/react';
+
+describe('instrumentation', () => {
+  it('reports per-update metrics with hook labels', () => {
+    const onUpdate = vi.fn<(metrics: UpdateMetrics) => void>();
+    const { Provider, useContext, createStore } = createSelectiveContext(
+      { count: 0, name: 'a' },
+      { instrument: onUpdate }
+    );
+    const store = createStore();
+
+    const Count = () => {
+      const [count] = useContext((state) => state.count, { label: 'Count' });
+      return <span>{count}</span>;
+    };
+
+    const Name = () => {
+      const [name] = useContext((state) => state.name, { label: 'Name' });
+      return <span>{name}</span>;
+    };
+
+    render(
+      <Provider store={store}>
+        <Count />
+        <Name />
+      </Provider>
+    );
+
+    act(() => store.setState({ count: 1 }, 'increment'));
+
+    expect(onUpdate).toHaveBeenCalledTimes(1);
+    const metrics = onUpdate.mock.calls[0][0];
+    expect(metrics).toMatchObject({
+      action: 'increment',
+      notified: 2,
+      selectorRuns: 2,
+      changed: 1,
+      rerendered: ['Count'],
+    });
+    expect(metrics.selectorTime).toBeGreaterThanOrEqual(0);
+  });
+
+  it('sums the metrics in getStats until they are reset', () => {
+    const { Provider, useContext, getStats, resetStats } =
+      createSelectiveContext({ count: 0, other: 0 }, { instrument: true });
+
+    const Counter = () => {
+      const [count, setState] = useContext((state) => state.count, {
+        label: 'Counter',
+      });
+      return (
+        <div>
+          <span>Count: {count}</span>
+          <button
+            onClick={() => {
+              setState({ count: count + 1 });
+              setState({ count: count + 2 });
+              setState({ count: count + 3 });
+            }}
+          >
+            Rapid Update
+          </button>
+        </div>
+      );
+    };
+
+    const Other = () => {
+      useContext((state) => state.other, Object.is);
+      return null;
+    };
+
+    render(
+      <Provider>
+        <Counter />
+        <Other />
+      </Provider>
+    );
+
+    fireEvent.click(screen.getByText('Rapid Update'));
+    expect(screen.getByText('Count: 3')).toBeInTheDocument();
+
+    const stats = getStats();
+    expect(stats.updates).toBe(3);
+    expect(stats.notified).toBe(6);
+    expect(stats.changed).toBe(3);
+    expect(stats.rerenders).toEqual({ Counter: 3 });
+
+    resetStats();
+    expect(getStats()).toEqual({
+      updates: 0,
+      notified: 0,
+      selectorRuns: 0,
+      selectorTime: 0,
+      changed: 0,
+      rerenders: {},
+    });
+  });
+
+  it('measures stores that were not created by the context', () => {
+    const onUpdate = vi.fn<(metrics: UpdateMetrics) => void>();
+    const { Provider, useContext } = createSelectiveContext(
+      { count: 0, name: 'a' },
+      { instrument: onUpdate }
+    );
+    const store = createSelectiveStore({ count: 0, name: 'a' });
+
+    const Count = () => {
+      const [count] = useContext((state) => state.count, { label: 'Count' });
+      return <span>{count}</span>;
+    };
+
+    const Name = () => {
+      const [name] = useContext((state) => state.name, { label: 'Name' });
+      return <span>{name}</span>;
+    };
+
+    render(
+      <Provider store={store}>
+        <Count />
+        <Name />
+      </Provider>
+    );
+    store.subscribe((state) => {
+      if (state.name === 'a') {
+        store.setState({ name: 'b' }, 'rename');
+      }
+    });
+
+    act(() => store.setState({ count: 1 }, 'increment'));
+
+    expect(onUpdate.mock.calls.map(([metrics]) => metrics)).toMatchObject([
+      { action: 'rename', notified: 2, changed: 1, rerendered: ['Name'] },
+      { action: 'increment', notified: 2, changed: 1, rerendered: ['Count'] },
+    ]);
+  });
+
+  it('times the first selector run only', () => {
+    const onUpdate = vi.fn<(metrics: UpdateMetrics) => void>();
+    const { Provider, useContext, createStore } = createSelectiveContext(
+      { count: 0 },
+      { instrument: onUpdate }
+    );
+    const store = createStore();
+    let now = 0;
+    const clock = vi.spyOn(performance, 'now').mockImplementation(() => now);
+
+    const Count = () => {
+      const [count] = useContext((state) => {
+        now += 5;
+        return state.count;
+      });
+      return <span>{count}</span>;
+    };
+
+    render(
+      <Provider store={store}>
+        <Count />
+      </Provider>
+    );
+    act(() => store.setState({ count: 1 }));
+
+    expect(onUpdate.mock.calls[0][0]).toMatchObject({
+      selectorRuns: 1,
+      selectorTime: 5,
+    });
+
+    clock.mockRestore();
+  });
+
+  it('collects nothing unless enabled', () => {
+    const { Provider, useContext, createStore, getStats } =
+      createSelectiveContext({ count: 0 });
+    const store = createStore();
+
+    const Count = () => {
+      const [count] = useContext((state) => state.count);
+      return <span>{count}</span>;
+    };
+
+    render(
+      <Provider store={store}>
+        <Count />
+      </Provider>
+    );
+    act(() => store.setState({ count: 1 }));
+
+    expect(getStats().updates).toBe(0);
+    expect(getStats().notified).toBe(0);
+  });
+});
@@ -0,0 +1,81 @@
+import React from 'react';
+import { describe, it, expect, vi } from 'vitest';
+import { createSelectiveContext, createSelectiveStore } from '../index';
+import { render, act } from '@testing-library/react';
+
+describe('slice listeners', () => {
+  it('calls the listener only when the selected slice changes', () => {
+    const store = createSelectiveStore({ count: 0, name: 'a' });
+    const listener = vi.fn();
+
+    store.subscribe((state) => state.count, listener);
+
+    store.setState({ name: 'b' });
+    expect(listener).not.toHaveBeenCalled();
+
+    store.setState({ count: 1 });
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith(1, 0);
+  });
+
+  it('supports a custom equality function and firing immediately', () => {
+    const store = createSelectiveStore({ user: { id: 1, name: 'a' } });
+    const listener = vi.fn();
+
+    const unsubscribe = store.subscribe((state) => state.user, listener, {
+      equalityFn: (a, b) => a.id === b.id,
+      fireImmediately: true,
+    });
+
+    expect(listener).toHaveBeenCalledWith(
+      { id: 1, name: 'a' },
+      { id: 1, name: 'a' }
+    );
+
+    store.setState({ user: { id: 1, name: 'b' } });
+    expect(listener).toHaveBeenCalledTimes(1);
+
+    store.setState({ user: { id: 2, name: 'c' } });
+    expect(listener).toHaveBeenLastCalledWith(
+      { id: 2, name: 'c' },
+      { id: 1, name: 'a' }
+    );
+
+    unsubscribe();
+    store.setState({ user: { id: 3, name: 'd' } });
+    expect(listener).toHaveBeenCalledTimes(2);
+  });
+
+  it('listens from a component without re-rendering it', () => {
+    const { Provider, useContextListener, createStore } =
+      createSelectiveContext({ count: 0, name: 'a' });
+    const store = createStore();
+    const listener = vi.fn();
+    let renders = 0;
+
+    const Watcher = () => {
+      renders++;
+      useContextListener((state) => state.count, listener);
+      return null;
+    };
+
+    const { unmount } = render(
+      <Provider store={store}>
+        <Watcher />
+      </Provider>
+    );
+
+    act(() => {
+      store.setState({ count: 1 });
+      store.setState({ name: 'b' });
+    });
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith(1, 0);
+    expect(renders).toBe(1);
+
+    unmount();
+    act(() => store.setState({ count: 2 }));
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,142 @@
+import React from 'react';
+import { describe, it, expect, vi } from 'vitest';
+import {
+  createSelectiveContext,
+  createSelectiveStore,
+  type Middleware,
+} from '../index';
+import { render, screen, fireEvent } from '@testing-library/react';
+
+describe('middleware', () => {
+  it('runs code before and after subscribers are notified', () => {
+    const calls: string[] = [];
+    const logger: Middleware<{ count: number }> =
+      ({ getState }) =>
+      (next) =>
+      (partial, action) => {
+        calls.push(`before ${action} ${getState().count}`);
+        next(partial, action);
+        calls.push(`after ${action} ${getState().count}`);
+      };
+    const store = createSelectiveStore({ count: 0 }, { middleware: [logger] });
+
+    store.subscribe(() => calls.push('listener'));
+    store.setState({ count: 1 }, 'increment');
+
+    expect(calls).toEqual(['before increment 0', 'listener', 'after increment 1']);
+  });
+
+  it('passes the resolved partial of updater functions', () => {
+    const seen = vi.fn();
+    const spy: Middleware<{ count: number }> = () => (next) => (partial) => {
+      seen(partial);
+      next(partial);
+    };
+    const store = createSelectiveStore({ count: 1 }, { middleware: [spy] });
+
+    store.setState((state) => ({ count: state.count + 1 }));
+
+    expect(seen).toHaveBeenCalledWith({ count: 2 });
+  });
+
+  it('transforms and vetoes updates', () => {
+    type State = { name: string; age: number };
+    const trim: Middleware<State> = () => (next) => (partial, action) =>
+      next(
+        typeof partial.name === 'string'
+          ? { ...partial, name: partial.name.trim() }
+          : partial,
+        action
+      );
+    const validator: Middleware<State> = () => (next) => (partial, action) => {
+      if (partial.age !== undefined && partial.age < 0) {
+        return;
+      }
+      next(partial, action);
+    };
+    const listener = vi.fn();
+    const store = createSelectiveStore<State>(
+      { name: '', age: 0 },
+      { middleware: [trim, validator] }
+    );
+
+    store.subscribe(listener);
+    store.setState({ name: '  John  ' });
+    store.setState({ age: -1 });
+
+    expect(store.getState()).toEqual({ name: 'John', age: 0 });
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  it('composes middleware in order', () => {
+    const calls: string[] = [];
+    const named =
+      (name: string): Middleware<{ count: number }> =>
+      () =>
+      (next) =>
+      (partial, action) => {
+        calls.push(`${name} in`);
+        next(partial, action);
+        calls.push(`${name} out`);
+      };
+    const store = createSelectiveStore(
+      { count: 0 },
+      { middleware: [named('first'), named('second')] }
+    );
+
+    store.setState({ count: 1 });
+
+    expect(calls).toEqual(['first in', 'second in', 'second out', 'first out']);
+  });
+
+  it('lets middleware dispatch follow-up updates', () => {
+    type State = { count: number; doubled: number };
+    const derive: Middleware<State> =
+      ({ setState }) =>
+      (next) =>
+      (partial, action) => {
+        next(partial, action);
+        if (partial.count !== undefined) {
+          setState({ doubled: partial.count * 2 });
+        }
+      };
+    const store = createSelectiveStore<State>(
+      { count: 0, doubled: 0 },
+      { middleware: [derive] }
+    );
+
+    store.setState({ count: 4 });
+
+    expect(store.getState()).toEqual({ count: 4, doubled: 8 });
+  });
+
+  it('wraps every store created by a context', () => {
+    const clamp: Middleware<{ count: number }> = () => (next) => (partial) =>
+      next({ count: Math.min(partial.count ?? 0, 2) });
+    const { Provider, useContext } = createSelectiveContext(
+      { count: 0 },
+      { middleware: [clamp] }
+    );
+
+    const TestComponent = () => {
+      const [count, setState] = useContext((state) => state.count);
+      return (
+        <button onClick={() => setState({ count: count + 1 })}>
+          Count: {count}
+        </button>
+      );
+    };
+
+    render(
+      <Provider>
+        <TestComponent />
+      </Provider>
+    );
+
+    fireEvent.click(screen.getByText('Count: 0'));
+    fireEvent.click(screen.getByText('Count: 1'));
+    fireEvent.click(screen.getByText('Count: 2'));
+
+    expect(screen.getByText('Count: 2')).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,159 @@
+import React from 'react';
+import { describe, it, expect, vi } from 'vitest';
+import { createSelectiveContext, createSelectiveStore } from '../index';
+import { render, screen, fireEvent } from '@testing-library/react';
+
+interface ProfileState {
+  user: {
+    profile: {
+      name: string;
+      address: { city: string; zip: string };
+    };
+    tags: string[];
+  };
+  settings: { theme: string };
+  history: { city: string }[];
+}
+
+const createProfileStore = () =>
+  createSelectiveStore<ProfileState>({
+    user: {
+      profile: { name: 'John', address: { city: 'Berlin', zip: '10115' } },
+      tags: ['admin'],
+    },
+    settings: { theme: 'light' },
+    history: [{ city: 'Paris' }, { city: 'Rome' }],
+  });
+
+describe('setIn and updateIn', () => {
+  it('sets a value at a string path', () => {
+    const store = createProfileStore();
+
+    store.setState.setIn('user.profile.address.city', 'Munich');
+
+    expect(store.getState().user.profile.address).toEqual({
+      city: 'Munich',
+      zip: '10115',
+    });
+  });
+
+  it('sets a value at a tuple path', () => {
+    const store = createProfileStore();
+
+    store.setState.setIn(['history', 1, 'city'], 'Madrid');
+
+    expect(store.getState().history).toEqual([
+      { city: 'Paris' },
+      { city: 'Madrid' },
+    ]);
+    expect(Array.isArray(store.getState().history)).toBe(true);
+  });
+
+  it('updates a value from the current one', () => {
+    const store = createProfileStore();
+
+    store.setState.updateIn('user.tags', (tags) => [...tags, 'editor']);
+    store.setState.updateIn(['user', 'profile', 'name'], (name) =>
+      name.toUpperCase()
+    );
+
+    expect(store.getState().user.tags).toEqual(['admin', 'editor']);
+    expect(store.getState().user.profile.name).toBe('JOHN');
+  });
+
+  it('shares untouched branches', () => {
+    const store = createProfileStore();
+    const before = store.getState();
+
+    store.setState.setIn('user.profile.address.city', 'Munich');
+
+    const after = store.getState();
+    expect(after.user).not.toBe(before.user);
+    expect(after.user.profile).not.toBe(before.user.profile);
+    expect(after.user.tags).toBe(before.user.tags);
+    expect(after.settings).toBe(before.settings);
+    expect(after.history).toBe(before.history);
+  });
+
+  it('does not notify when the value is the same', () => {
+    const store = createProfileStore();
+    const listener = vi.fn();
+
+    store.subscribe(listener);
+    store.setState.setIn('user.profile.name', 'John');
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it('passes the action name to listeners', () => {
+    const store = createProfileStore();
+    const listener = vi.fn();
+
+    store.subscribe(listener);
+    store.setState.setIn('settings.theme', 'dark', 'toggle theme');
+
+    expect(listener.mock.calls[0][2]).toBe('toggle theme');
+  });
+
+  it('rejects invalid paths and values at compile time', () => {
+    const check = () => {
+      const store = createProfileStore();
+
+      // @ts-expect-error unknown key
+      store.setState.setIn('user.profile.age', 1);
+      // @ts-expect-error wrong value type
+      store.setState.setIn(['user', 'profile', 'name'], 1);
+      // @ts-expect-error wrong updater result
+      store.setState.updateIn('user.tags', () => 'admin');
+    };
+
+    expect(check).toBeInstanceOf(Function);
+  });
+
+  it('does not re-render selectors on sibling branches', () => {
+    const { Provider, useContext } = createSelectiveContext<ProfileState>({
+      user: {
+        profile: { name: 'John', address: { city: 'Berlin', zip: '10115' } },
+        tags: [],
+      },
+      settings: { theme: 'light' },
+      history: [],
+    });
+
+    const Address = vi.fn(() => {
+      const [address] = useContext((state) => state.user.profile.address);
+      return <span>City: {address.city}</span>;
+    });
+
+    const Tags = vi.fn(() => {
+      const [tags] = useContext((state) => state.user.tags);
+      return <span>Tags: {tags.length}</span>;
+    });
+
+    const Controls = () => {
+      const [, setState] = useContext(() => null);
+      return (
+        <button onClick={() => setState.setIn('user.profile.address.city', 'Munich')}>
+          Move
+        </button>
+      );
+    };
+
+    render(
+      <Provider>
+        <Address />
+        <Tags />
+        <Controls />
+      </Provider>
+    );
+
+    Address.mockClear();
+    Tags.mockClear();
+
+    fireEvent.click(screen.getByText('Move'));
+
+    expect(screen.getByText('City: Munich')).toBeInTheDocument();
+    expect(Address).toHaveBeenCalledTimes(1);
+    expect(Tags).toHaveBeenCalledTimes(0);
+  });
+});
@@ -0,0 +1,288 @@
+import React from 'react';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { createSelectiveContext, type PersistStorage } from '../index';
+import { render, screen, fireEvent, act } from '@testing-library/react';
+
+const createAsyncStorage = (initial: Record<string, string> = {}) => {
+  const items = new Map(Object.entries(initial));
+  const pending: (() => void)[] = [];
+
+  const storage: PersistStorage = {
+    getItem: (key) =>
+      new Promise((resolve) => {
+        pending.push(() => resolve(items.get(key) ?? null));
+      }),
+    setItem: async (key, value) => {
+      items.set(key, value);
+    },
+    removeItem: async (key) => {
+      items.delete(key);
+    },
+  };
+
+  const flush = async () => {
+    pending.splice(0).forEach((resolve) => resolve());
+    await Promise.resolve();
+  };
+
+  return { storage, items, flush };
+};
+
+describe('persist', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    sessionStorage.clear();
+  });
+
+  it('saves updates to localStorage', () => {
+    const { Provider, useContext } = createSelectiveContext(
+      { count: 0 },
+      { persist: { key: 'counter' } }
+    );
+
+    const TestComponent = () => {
+      const [count, setState] = useContext((state) => state.count);
+      return (
+        <button onClick={() => setState({ count: count + 1 })}>
+          Count: {count}
+        </button>
+      );
+    };
+
+    render(
+      <Provider>
+        <TestComponent />
+      </Provider>
+    );
+
+    fireEvent.click(screen.getByText('Count: 0'));
+
+    expect(JSON.parse(localStorage.getItem('counter')!)).toEqual({
+      state: { count: 1 },
+      version: 0,
+    });
+  });
+
+  it('hydrates from sessionStorage before the first render', () => {
+    sessionStorage.setItem(
+      'counter',
+      JSON.stringify({ state: { count: 42 }, version: 0 })
+    );
+    const { Provider, useContext, usePersist } = createSelectiveContext(
+      { count: 0 },
+      { persist: { key: 'counter', storage: 'sessionStorage' } }
+    );
+    const renders: string[] = [];
+
+    const TestComponent = () => {
+      const [count] = useContext((state) => state.count);
+      const hasHydrated = usePersist((status) => status.hasHydrated);
+      renders.push(`${count}:${hasHydrated}`);
+      return <span>Count: {count}</span>;
+    };
+
+    render(
+      <Provider>
+        <TestComponent />
+      </Provider>
+    );
+
+    expect(screen.getByText('Count: 42')).toBeInTheDocument();
+    expect(renders).toEqual(['42:true']);
+  });
+
+  it('persists only partialized keys', () => {
+    const { createStore } = createSelectiveContext(
+      { token: '', draft: '' },
+      { persist: { key: 'auth', partialize: ['token'] } }
+    );
+    const store = createStore();
+
+    store.setState({ token: 'abc', draft: 'unsaved' });
+
+    expect(JSON.parse(localStorage.getItem('auth')!).state).toEqual({
+      token: 'abc',
+    });
+
+    const restored = createStore();
+    expect(restored.getState()).toEqual({ token: 'abc', draft: '' });
+  });
+
+  it('migrates state saved with an older version', () => {
+    localStorage.setItem(
+      'user',
+      JSON.stringify({ state: { fullName: 'John Doe' }, version: 1 })
+    );
+    const migrate = vi.fn((state: any) => {
+      const [firstName, lastName] = state.fullName.split(' ');
+      return { firstName, lastName };
+    });
+    const { createStore } = createSelectiveContext(
+      { firstName: '', lastName: '' },
+      { persist: { key: 'user', version: 2, migrate } }
+    );
+
+    const store = createStore();
+
+    expect(migrate).toHaveBeenCalledWith({ fullName: 'John Doe' }, 1);
+    expect(store.getState()).toEqual({ firstName: 'John', lastName: 'Doe' });
+    expect(JSON.parse(localStorage.getItem('user')!)).toEqual({
+      state: { firstName: 'John', lastName: 'Doe' },
+      version: 2,
+    });
+  });
+
+  it('only restores partialized keys returned by migrate', () => {
+    localStorage.setItem(
+      'settings',
+      JSON.stringify({ state: { theme: 'dark' }, version: 1 })
+    );
+    const { createStore } = createSelectiveContext(
+      { theme: 'light', token: '' },
+      {
+        persist: {
+          key: 'settings',
+          version: 2,
+          partialize: ['theme'],
+          migrate: (state: any) => ({ theme: state.theme, token: 'leaked' }),
+        },
+      }
+    );
+
+    const store = createStore();
+
+    expect(store.getState()).toEqual({ theme: 'dark', token: '' });
+    expect(JSON.parse(localStorage.getItem('settings')!).state).toEqual({
+      theme: 'dark',
+    });
+  });
+
+  it('drops state saved with another version when there is no migrate', () => {
+    localStorage.setItem(
+      'counter',
+      JSON.stringify({ state: { count: 5 }, version: 1 })
+    );
+    const { createStore } = createSelectiveContext(
+      { count: 0 },
+      { persist: { key: 'counter', version: 2 } }
+    );
+
+    expect(createStore().getState()).toEqual({ count: 0 });
+  });
+
+  it('hydrates from an async storage and reports the status', async () => {
+    const { storage, items, flush } = createAsyncStorage({
+      counter: JSON.stringify({ state: { count: 7 }, version: 0 }),
+    });
+    const { Provider, useContext, usePersist } = createSelectiveContext(
+      { count: 0 },
+      { persist: { key: 'counter', storage } }
+    );
+
+    const TestComponent = () => {
+      const [count, setState] = useContext((state) => state.count);
+      const hasHydrated = usePersist((status) => status.hasHydrated);
+      return (
+        <button onClick={() => setState({ count: count + 1 })}>
+          {hasHydrated ? 'Ready' : 'Loading'}: {count}
+        </button>
+      );
+    };
+
+    render(
+      <Provider>
+        <TestComponent />
+      </Provider>
+    );
+
+    expect(screen.getByText('Loading: 0')).toBeInTheDocument();
+
+    await act(flush);
+
+    expect(screen.getByText('Ready: 7')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByText('Ready: 7'));
+    await act(async () => {});
+
+    expect(JSON.parse(items.get('counter')!).state).toEqual({ count: 8 });
+  });
+
+  it('keeps updates made while an async storage is read', async () => {
+    const { storage, items, flush } = createAsyncStorage({
+      form: JSON.stringify({ state: { name: 'Saved', step: 3 }, version: 0 }),
+    });
+    const { createStore } = createSelectiveContext(
+      { name: '', step: 1 },
+      { persist: { key: 'form', storage } }
+    );
+    const store = createStore();
+
+    store.setState({ name: 'Typed' });
+    // Not saved before hydration, so the saved state is not overwritten
+    expect(JSON.parse(items.get('form')!).state).toEqual({
+      name: 'Saved',
+      step: 3,
+    });
+
+    await flush();
+
+    expect(store.getState()).toEqual({ name: 'Typed', step: 3 });
+    await Promise.resolve();
+    expect(JSON.parse(items.get('form')!).state).toEqual({
+      name: 'Typed',
+      step: 3,
+    });
+  });
+
+  it('clears the storage and rehydrates on demand', async () => {
+    const { createStore, Provider, usePersist } = createSelectiveContext(
+      { count: 0 },
+      { persist: { key: 'counter' } }
+    );
+    const store = createStore();
+    let status: any;
+
+    const TestComponent = () => {
+      status = usePersist((status) => status);
+      return null;
+    };
+
+    render(
+      <Provider store={store}>
+        <TestComponent />
+      </Provider>
+    );
+
+    store.setState({ count: 3 });
+    await status.clearStorage();
+    expect(localStorage.getItem('counter')).toBeNull();
+
+    localStorage.setItem(
+      'counter',
+      JSON.stringify({ state: { count: 9 }, version: 0 })
+    );
+    await act(() => status.rehydrate());
+
+    expect(store.getState()).toEqual({ count: 9 });
+  });
+
+  it('throws when usePersist is used without the persist option', () => {
+    const { Provider, usePersist } = createSelectiveContext({ count: 0 });
+    const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const TestComponent = () => {
+      usePersist((status) => status.hasHydrated);
+      return null;
+    };
+
+    expect(() =>
+      render(
+        <Provider>
+          <TestComponent />
+        </Provider>
+      )
+    ).toThrow('Persistence is not enabled for this store');
+
+    consoleSpy.mockRestore();
+  });
+});
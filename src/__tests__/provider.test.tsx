@@ -0,0 +1,240 @@
+import React from 'react';
+import { describe, it, expect, vi } from 'vitest';
+import { createSelectiveContext } from '../index';
+import { render, screen, fireEvent, act } from '@testing-library/react';
+
+describe('Provider', () => {
+  describe('initialState prop', () => {
+    it('overrides the whole initial state per instance', () => {
+      const { Provider, useContext } = createSelectiveContext({
+        count: 0,
+        name: 'default',
+      });
+
+      const TestComponent = () => {
+        const [count] = useContext((state) => state.count);
+        const [name] = useContext((state) => state.name);
+        return <span>{name}: {count}</span>;
+      };
+
+      render(
+        <>
+          <Provider initialState={{ count: 1, name: 'first' }}>
+            <TestComponent />
+          </Provider>
+          <Provider initialState={{ count: 2, name: 'second' }}>
+            <TestComponent />
+          </Provider>
+        </>
+      );
+
+      expect(screen.getByText('first: 1')).toBeInTheDocument();
+      expect(screen.getByText('second: 2')).toBeInTheDocument();
+    });
+
+    it('merges a partial override with the context initial state', () => {
+      const { Provider, useContext } = createSelectiveContext({
+        count: 0,
+        name: 'default',
+      });
+
+      const TestComponent = () => {
+        const [state] = useContext((state) => state);
+        return <span>{state.name}: {state.count}</span>;
+      };
+
+      render(
+        <Provider initialState={{ count: 5 }}>
+          <TestComponent />
+        </Provider>
+      );
+
+      expect(screen.getByText('default: 5')).toBeInTheDocument();
+    });
+
+    it('supports a lazy initializer called once per instance', () => {
+      const { Provider, useContext } = createSelectiveContext({ count: 10 });
+      const initializer = vi.fn((state: { count: number }) => ({
+        count: state.count * 2,
+      }));
+
+      const TestComponent = () => {
+        const [count, setState] = useContext((state) => state.count);
+        return (
+          <div>
+            <span>Count: {count}</span>
+            <button onClick={() => setState({ count: count + 1 })}>
+              Increment
+            </button>
+          </div>
+        );
+      };
+
+      render(
+        <Provider initialState={initializer}>
+          <TestComponent />
+        </Provider>
+      );
+
+      expect(screen.getByText('Count: 20')).toBeInTheDocument();
+
+      fireEvent.click(screen.getByText('Increment'));
+
+      expect(screen.getByText('Count: 21')).toBeInTheDocument();
+      expect(initializer).toHaveBeenCalledTimes(1);
+    });
+
+    it('keeps instances isolated from each other', () => {
+      const { Provider, useContext } = createSelectiveContext({ count: 0 });
+
+      const TestComponent = ({ label }: { label: string }) => {
+        const [count, setState] = useContext((state) => state.count);
+        return (
+          <button onClick={() => setState({ count: count + 1 })}>
+            {label}: {count}
+          </button>
+        );
+      };
+
+      render(
+        <>
+          <Provider>
+            <TestComponent label="A" />
+          </Provider>
+          <Provider initialState={{ count: 100 }}>
+            <TestComponent label="B" />
+          </Provider>
+        </>
+      );
+
+      fireEvent.click(screen.getByText('A: 0'));
+
+      expect(screen.getByText('A: 1')).toBeInTheDocument();
+      expect(screen.getByText('B: 100')).toBeInTheDocument();
+    });
+  });
+
+  describe('store prop', () => {
+    it('mounts a store created with createStore', () => {
+      const { Provider, useContext, createStore } = createSelectiveContext({
+        count: 0,
+      });
+      const store = createStore({ count: 3 });
+
+      const TestComponent = () => {
+        const [count] = useContext((state) => state.count);
+        return <span>Count: {count}</span>;
+      };
+
+      render(
+        <Provider store={store}>
+          <TestComponent />
+        </Provider>
+      );
+
+      expect(screen.getByText('Count: 3')).toBeInTheDocument();
+
+      act(() => {
+        store.setState({ count: 4 });
+      });
+
+      expect(screen.getByText('Count: 4')).toBeInTheDocument();
+    });
+
+    it('shares one store between several providers', () => {
+      const { Provider, useContext, createStore } = createSelectiveContext({
+        count: 0,
+      });
+      const store = createStore();
+
+      const Display = ({ label }: { label: string }) => {
+        const [count, setState] = useContext((state) => state.count);
+        return (
+          <button onClick={() => setState({ count: count + 1 })}>
+            {label}: {count}
+          </button>
+        );
+      };
+
+      render(
+        <>
+          <Provider store={store}>
+            <Display label="A" />
+          </Provider>
+          <Provider store={store}>
+            <Display label="B" />
+          </Provider>
+        </>
+      );
+
+      fireEvent.click(screen.getByText('A: 0'));
+
+      expect(screen.getByText('A: 1')).toBeInTheDocument();
+      expect(screen.getByText('B: 1')).toBeInTheDocument();
+      expect(store.getState()).toEqual({ count: 1 });
+    });
+
+    it('ignores initialState when a store is provided', () => {
+      const { Provider, useContext, createStore } = createSelectiveContext({
+        count: 0,
+      });
+      const store = createStore({ count: 7 });
+
+      const TestComponent = () => {
+        const [count] = useContext((state) => state.count);
+        return <span>Count: {count}</span>;
+      };
+
+      render(
+        <Provider
+          store={store}
+          initialState={{ count: 1 }}
+        >
+          <TestComponent />
+        </Provider>
+      );
+
+      expect(screen.getByText('Count: 7')).toBeInTheDocument();
+    });
+  });
+
+  describe('lifecycle', () => {
+    it('destroys the store it created on unmount', async () => {
+      const { Provider, useStore } = createSelectiveContext({ count: 0 });
+      const listener = vi.fn();
+      let store!: ReturnType<typeof useStore>;
+
+      const Probe = () => {
+        store = useStore();
+        return null;
+      };
+
+      const { unmount } = render(
+        <Provider>
+          <Probe />
+        </Provider>
+      );
+
+      store.subscribe(listener);
+      unmount();
+      await Promise.resolve();
+      store.setState({ count: 1 });
+
+      expect(listener).not.toHaveBeenCalled();
+    });
+
+    it('leaves a store passed through the store prop alive', async () => {
+      const { Provider, createStore } = createSelectiveContext({ count: 0 });
+      const store = createStore();
+      const listener = vi.fn();
+
+      store.subscribe(listener);
+      const { unmount } = render(<Provider store={store}>{null}</Provider>);
+      unmount();
+      await Promise.resolve();
+      store.setState({ count: 1 });
+
+      expect(listener).toHaveBeenCalledTimes(1);
+    });
+  });
+});
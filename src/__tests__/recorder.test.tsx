@@ -0,0 +1,258 @@
+import React from 'react';
+import { describe, it, expect } from 'vitest';
+import {
+  createRecorder,
+  createSelectiveContext,
+  createSelectiveStore,
+  replay,
+} from '../index';
+import { render, screen, fireEvent, act } from '@testing-library/react';
+
+type Todo = { title: string; done: boolean };
+
+describe('recorder', () => {
+  it('logs every update with its action and diff', () => {
+    const recorder = createRecorder<{ count: number; name: string }>();
+    const store = createSelectiveStore({ count: 0, name: 'a' });
+    recorder.attach(store);
+
+    store.setState({ count: 1 }, 'increment');
+    store.setState((state) => ({ count: state.count + 1, name: 'a' }));
+
+    const { initialState, updates } = recorder.getLog();
+
+    expect(initialState).toEqual({ count: 0, name: 'a' });
+    expect(updates).toHaveLength(2);
+    expect(updates[0]).toMatchObject({
+      partial: { count: 1 },
+      action: 'increment',
+      diff: { count: { prev: 0, next: 1 } },
+    });
+    expect(updates[1].diff).toEqual({ count: { prev: 1, next: 2 } });
+    expect(typeof updates[1].timestamp).toBe('number');
+  });
+
+  it('keeps a bounded log that still replays from the start', () => {
+    const recorder = createRecorder<{ count: number }>({ limit: 2 });
+    const store = createSelectiveStore({ count: 0 });
+    recorder.attach(store);
+
+    for (let count = 1; count <= 5; count++) {
+      store.setState({ count }, `set ${count}`);
+    }
+
+    const log = recorder.getLog();
+
+    expect(log.updates.map((update) => update.action)).toEqual([
+      'set 4',
+      'set 5',
+    ]);
+    expect(log.initialState).toEqual({ count: 3 });
+
+    const fresh = createSelectiveStore({ count: 0 });
+    replay(fresh, log).replayAll();
+    expect(fresh.getState()).toEqual({ count: 5 });
+  });
+
+  it('records only the attached store', () => {
+    const recorder = createRecorder<{ count: number }>();
+    const { createStore } = createSelectiveContext({ count: 0 });
+    const first = createStore();
+    const second = createStore({ count: 10 });
+
+    recorder.attach(first);
+    first.setState({ count: 1 }, 'first');
+    second.setState({ count: 11 }, 'second');
+
+    expect(recorder.getLog().initialState).toEqual({ count: 0 });
+    expect(recorder.getLog().updates.map((update) => update.action)).toEqual([
+      'first',
+    ]);
+
+    first.destroy();
+    recorder.attach(second);
+    second.setState({ count: 12 }, 'second');
+
+    const log = recorder.getLog();
+
+    expect(log.initialState).toEqual({ count: 11 });
+    expect(log.updates.map((update) => update.action)).toEqual(['second']);
+  });
+
+  it('stops recording when detached', () => {
+    const recorder = createRecorder<{ count: number }>();
+    const store = createSelectiveStore({ count: 0 });
+    const detach = recorder.attach(store);
+
+    store.setState({ count: 1 }, 'kept');
+    detach();
+    store.setState({ count: 2 }, 'dropped');
+
+    expect(recorder.getLog().updates.map((update) => update.action)).toEqual([
+      'kept',
+    ]);
+  });
+
+  it('records a batch once and leaves out batches that threw', () => {
+    const recorder = createRecorder<{ n: number }>();
+    const store = createSelectiveStore({ n: 0 });
+    recorder.attach(store);
+
+    store.batch(() => {
+      store.setState({ n: 1 });
+      store.setState({ n: 2 });
+    }, 'twice');
+    expect(() =>
+      store.batch(() => {
+        store.setState({ n: 5 });
+        throw new Error('fail');
+      })
+    ).toThrow('fail');
+
+    const log = recorder.getLog();
+
+    expect(store.getState()).toEqual({ n: 2 });
+    expect(log.updates).toHaveLength(1);
+    expect(log.updates[0]).toMatchObject({
+      action: 'twice',
+      partial: { n: 2 },
+      diff: { n: { prev: 0, next: 2 } },
+    });
+
+    const fresh = createSelectiveStore({ n: 0 });
+    replay(fresh, log).replayAll();
+    expect(fresh.getState()).toEqual({ n: 2 });
+  });
+
+  it('leaves out updates that were rejected or changed nothing', () => {
+    const recorder = createRecorder<{ age: number }>();
+    const store = createSelectiveStore(
+      { age: 1 },
+      {
+        validate: (state) => state.age >= 0,
+        onInvalid: () => {},
+      }
+    );
+    recorder.attach(store);
+
+    store.setState({ age: -1 }, 'invalid');
+    store.setState({ age: 1 }, 'same');
+    store.setState({ age: 2 }, 'valid');
+
+    expect(store.getState()).toEqual({ age: 2 });
+    expect(recorder.getLog().updates.map((update) => update.action)).toEqual([
+      'valid',
+    ]);
+  });
+
+  it('replaces the state of the replayed store with the initial state', () => {
+    const recorder = createRecorder<Record<string, number>>();
+    const store = createSelectiveStore<Record<string, number>>({ a: 1 });
+    recorder.attach(store);
+
+    store.setState({ a: 2 });
+
+    const fresh = createSelectiveStore<Record<string, number>>({ a: 0, b: 5 });
+    replay(fresh, recorder.getLog()).replayAll();
+
+    expect(fresh.getState()).toEqual({ a: 2 });
+  });
+
+  it('records and replays replacements that remove keys', () => {
+    const recorder = createRecorder<Record<string, number>>({ limit: 1 });
+    const store = createSelectiveStore<Record<string, number>>({ a: 1, b: 2 });
+    recorder.attach(store);
+
+    store.replace({ a: 1, c: 3 }, 'load');
+
+    const [update] = recorder.getLog().updates;
+
+    expect(update).toMatchObject({
+      action: 'load',
+      replace: true,
+      diff: {
+        b: { prev: 2, next: undefined },
+        c: { prev: undefined, next: 3 },
+      },
+    });
+
+    const fresh = createSelectiveStore<Record<string, number>>({});
+    replay(fresh, recorder.exportLog()).replayAll();
+    expect(fresh.getState()).toEqual({ a: 1, c: 3 });
+
+    store.reset();
+    expect(recorder.getLog().initialState).toEqual({ a: 1, c: 3 });
+  });
+
+  it('replays an exported log step by step onto a fresh Provider store', () => {
+    const recorder = createRecorder<{ todos: Todo[]; updatedAt: Date }>();
+    const { Provider, useContext, createStore } = createSelectiveContext({
+      todos: [] as Todo[],
+      updatedAt: new Date(0),
+    });
+
+    const Todos = () => {
+      const [todos, setState] = useContext((state) => state.todos);
+      return (
+        <div>
+          <span data-testid="todos">
+            {todos.map((todo) => `${todo.title}:${todo.done}`).join(',')}
+          </span>
+          <button
+            onClick={() =>
+              setState.draft((state) => {
+                state.todos.push({ title: 'Bug', done: false });
+                state.updatedAt = new Date(1000);
+              }, 'add')
+            }
+          >
+            Add
+          </button>
+          <button onClick={() => setState.setIn(['todos', 0, 'done'], true)}>
+            Done
+          </button>
+        </div>
+      );
+    };
+
+    const recorded = createStore();
+    recorder.attach(recorded);
+
+    const { unmount } = render(
+      <Provider store={recorded}>
+        <Todos />
+      </Provider>
+    );
+
+    fireEvent.click(screen.getByText('Add'));
+    fireEvent.click(screen.getByText('Done'));
+
+    const json = recorder.exportLog();
+    unmount();
+
+    const store = createStore();
+    const replayer = replay(store, json);
+
+    render(
+      <Provider store={store}>
+        <Todos />
+      </Provider>
+    );
+
+    expect(replayer.length).toBe(2);
+    expect(screen.getByTestId('todos').textContent).toBe('');
+
+    act(() => {
+      replayer.step();
+    });
+    expect(screen.getByTestId('todos').textContent).toBe('Bug:false');
+    expect(store.getState().updatedAt).toEqual(new Date(1000));
+
+    act(() => {
+      replayer.step();
+    });
+    expect(screen.getByTestId('todos').textContent).toBe('Bug:true');
+    expect(replayer.step()).toBeUndefined();
+    expect(replayer.position).toBe(2);
+  });
+});
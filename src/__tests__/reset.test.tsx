@@ -0,0 +1,186 @@
+import React from 'react';
+import { describe, it, expect, vi } from 'vitest';
+import {
+  combineSlices,
+  createSelectiveContext,
+  createSelectiveStore,
+  createSlice,
+  type Middleware,
+} from '../index';
+import { render, screen, fireEvent } from '@testing-library/react';
+
+type Form = {
+  user: { name: string; email: string };
+  step: number;
+  errors: Record<string, string>;
+};
+
+const initialForm: Form = {
+  user: { name: '', email: '' },
+  step: 1,
+  errors: {},
+};
+
+describe('reset and replace', () => {
+  it('resets the whole state to the initial state', () => {
+    const updateCallback = vi.fn();
+    const store = createSelectiveStore(initialForm, { updateCallback });
+    const listener = vi.fn();
+
+    store.subscribe(listener);
+    store.setState({ step: 3, user: { name: 'Ada', email: 'a@b.c' } });
+    store.reset();
+
+    expect(store.getState()).toBe(initialForm);
+    expect(listener).toHaveBeenLastCalledWith(
+      initialForm,
+      { step: 3, user: { name: 'Ada', email: 'a@b.c' }, errors: {} },
+      'reset'
+    );
+    expect(updateCallback).toHaveBeenLastCalledWith(initialForm);
+  });
+
+  it('resets only the given keys', () => {
+    const store = createSelectiveStore(initialForm);
+
+    store.setState({ step: 2, user: { name: 'Ada', email: '' } });
+    store.setState.reset(['user']);
+
+    expect(store.getState()).toEqual({ ...initialForm, step: 2 });
+    expect(store.getState().user).toBe(initialForm.user);
+  });
+
+  it('replaces the state and reports removed keys', () => {
+    const onChange = vi.fn();
+    const store = createSelectiveStore<Record<string, number>>(
+      { a: 1, b: 2 },
+      { onChange }
+    );
+
+    store.replace({ a: 1, c: 3 }, 'sync');
+
+    expect(store.getState()).toEqual({ a: 1, c: 3 });
+    expect('b' in store.getState()).toBe(false);
+    expect(onChange).toHaveBeenCalledWith(
+      expect.objectContaining({ changedKeys: ['c', 'b'], action: 'sync' })
+    );
+  });
+
+  it('removes keys missing from the initial state on reset', () => {
+    const store = createSelectiveStore<Record<string, string>>({ a: 'x' });
+
+    store.setState({ draft: 'unsaved', a: 'y' });
+    store.reset(['draft']);
+
+    expect(store.getState()).toEqual({ a: 'y' });
+    expect(Object.keys(store.getState())).toEqual(['a']);
+  });
+
+  it('skips replacements that change nothing', () => {
+    const store = createSelectiveStore({ a: 1 });
+    const listener = vi.fn();
+
+    store.subscribe(listener);
+    store.replace({ a: 1 });
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it('merges updates made by listeners during a replacement', () => {
+    const store = createSelectiveStore<{ a: number; b?: number }>({
+      a: 1,
+      b: 2,
+    });
+
+    store.subscribe((state) => {
+      if (state.a === 0) {
+        store.setState({ a: 10 });
+      }
+    });
+    store.replace({ a: 0 });
+
+    expect(store.getState()).toEqual({ a: 10 });
+  });
+
+  it('restores the Provider initial state on logout', () => {
+    const { Provider, useContext } = createSelectiveContext({
+      user: null as string | null,
+      theme: 'light',
+    });
+
+    const Session = () => {
+      const [user, setState] = useContext((state) => state.user);
+      const [theme] = useContext((state) => state.theme);
+      return (
+        <div>
+          <span data-testid="session">
+            {user ?? 'guest'} {theme}
+          </span>
+          <button onClick={() => setState({ user: 'ada', theme: 'dark' })}>
+            Login
+          </button>
+          <button onClick={() => setState.reset()}>Logout</button>
+        </div>
+      );
+    };
+
+    render(
+      <Provider initialState={{ theme: 'dark' }}>
+        <Session />
+      </Provider>
+    );
+
+    fireEvent.click(screen.getByText('Login'));
+    expect(screen.getByTestId('session').textContent).toBe('ada dark');
+
+    fireEvent.click(screen.getByText('Logout'));
+    expect(screen.getByTestId('session').textContent).toBe('guest dark');
+  });
+
+  it('resets and replaces a slice from its actions', () => {
+    const filters = createSlice({
+      name: 'filters',
+      initialState: { query: '', tags: [] as string[] },
+      actions: (set) => ({
+        search: (query: string) => set({ query }),
+        clear: () => set.reset(),
+        clearQuery: () => set.reset(['query']),
+        load: (query: string, tags: string[]) => set.replace({ query, tags }),
+      }),
+    });
+    const { initialState, actions } = combineSlices(filters);
+    const store = createSelectiveStore(initialState);
+    const { filters: filterActions } = actions(store.setState, store.getState);
+
+    filterActions.load('react', ['ui']);
+    expect(store.getState().filters).toEqual({ query: 'react', tags: ['ui'] });
+
+    filterActions.clearQuery();
+    expect(store.getState().filters).toEqual({ query: '', tags: ['ui'] });
+
+    filterActions.search('x');
+    filterActions.clear();
+    expect(store.getState().filters).toBe(filters.initialState);
+  });
+
+  it('passes the replace flag through middleware that update the store', () => {
+    type State = { a: number; b?: number; updates?: number };
+    const count: Middleware<State> =
+      ({ getState, setState }) =>
+      (next) =>
+      (partial, action, replace) => {
+        if (action !== 'count') {
+          setState({ updates: (getState().updates ?? 0) + 1 }, 'count');
+        }
+        next(partial, action, replace);
+      };
+    const store = createSelectiveStore<State>(
+      { a: 1, b: 2 },
+      { middleware: [count] }
+    );
+
+    store.replace({ a: 0 });
+
+    expect(store.getState()).toEqual({ a: 0 });
+  });
+});
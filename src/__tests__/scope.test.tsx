@@ -0,0 +1,302 @@
+import React from 'react';
+import { describe, it, expect, vi } from 'vitest';
+import {
+  createSelectiveContext,
+  createSelectiveStore,
+  StateValidationError,
+  type Middleware,
+} from '../index';
+import { render, screen, fireEvent, act } from '@testing-library/react';
+
+const createRecordContext = () =>
+  createSelectiveContext({ title: 'Draft', body: 'Text', saved: 0 });
+
+describe('scoped providers', () => {
+  it('inherits parent state and keeps overrides local until commit', () => {
+    const { Provider, useContext, useScope, createStore } =
+      createRecordContext();
+    const parent = createStore();
+
+    const Title = ({ testId }: { testId: string }) => {
+      const [title] = useContext((state) => state.title);
+      return <span data-testid={testId}>{title}</span>;
+    };
+
+    const Editor = () => {
+      const [, setState] = useContext((state) => state.title);
+      const isDirty = useScope((scope) => scope.isDirty);
+      const commit = useScope((scope) => scope.commit);
+      return (
+        <div>
+          <span data-testid="dirty">{String(isDirty)}</span>
+          <button onClick={() => setState({ title: 'Edited' })}>Edit</button>
+          <button onClick={commit}>Commit</button>
+        </div>
+      );
+    };
+
+    render(
+      <Provider store={parent}>
+        <Title testId="outer" />
+        <Provider scoped>
+          <Title testId="inner" />
+          <Editor />
+        </Provider>
+      </Provider>
+    );
+
+    expect(screen.getByTestId('inner').textContent).toBe('Draft');
+
+    fireEvent.click(screen.getByText('Edit'));
+    expect(screen.getByTestId('inner').textContent).toBe('Edited');
+    expect(screen.getByTestId('outer').textContent).toBe('Draft');
+    expect(screen.getByTestId('dirty').textContent).toBe('true');
+
+    fireEvent.click(screen.getByText('Commit'));
+    expect(screen.getByTestId('outer').textContent).toBe('Edited');
+    expect(screen.getByTestId('dirty').textContent).toBe('false');
+    expect(parent.getState().title).toBe('Edited');
+  });
+
+  it('discards overrides and follows parent updates for other keys', () => {
+    const { Provider, useContext, useScope, createStore } =
+      createRecordContext();
+    const parent = createStore();
+    let discard = () => {};
+
+    const Inner = () => {
+      const [state] = useContext((state) => `${state.title}/${state.body}`);
+      discard = useScope((scope) => scope.discard);
+      return <span data-testid="inner">{state}</span>;
+    };
+
+    render(
+      <Provider store={parent}>
+        <Provider scoped initialState={{ title: 'Copy' }}>
+          <Inner />
+        </Provider>
+      </Provider>
+    );
+
+    expect(screen.getByTestId('inner').textContent).toBe('Copy/Text');
+
+    act(() => parent.setState({ title: 'Renamed', body: 'New text' }));
+    expect(screen.getByTestId('inner').textContent).toBe('Copy/New text');
+
+    act(() => discard());
+    expect(screen.getByTestId('inner').textContent).toBe('Renamed/New text');
+  });
+
+  it('writes keys outside the scope through to the parent', () => {
+    const { Provider, useStore, useScope, createStore } =
+      createRecordContext();
+    const parent = createStore();
+    let scoped = parent;
+    let dirtyKeys: string[] = [];
+
+    const Inner = () => {
+      scoped = useStore();
+      dirtyKeys = useScope((scope) => scope.dirtyKeys);
+      return null;
+    };
+
+    render(
+      <Provider store={parent}>
+        <Provider scoped={['title']}>
+          <Inner />
+        </Provider>
+      </Provider>
+    );
+
+    act(() => scoped.setState({ title: 'Local', saved: 1 }));
+
+    expect(scoped).not.toBe(parent);
+
+    expect(parent.getState()).toEqual({
+      title: 'Draft',
+      body: 'Text',
+      saved: 1,
+    });
+    expect(scoped.getState().title).toBe('Local');
+    expect(dirtyKeys).toEqual(['title']);
+  });
+
+  it('keeps overrides dirty when the parent rejects the commit', () => {
+    type Record = { title: string; body: string; saved: number };
+    let locked = true;
+    const lock: Middleware<Record> =
+      () => (next) => (partial, action, replace) => {
+        if (action !== 'scope/commit' || !locked) {
+          next(partial, action, replace);
+        }
+      };
+    const { Provider, useStore, useScope } = createRecordContext();
+    const parent = createSelectiveStore<Record>(
+      { title: 'Draft', body: 'Text', saved: 0 },
+      {
+        middleware: [lock],
+        validate: (state) => state.title !== 'Invalid',
+      }
+    );
+    let scoped = parent;
+    let scopeState!: { isDirty: boolean; commit: () => void };
+
+    const Inner = () => {
+      scoped = useStore();
+      scopeState = useScope((scope) => scope);
+      return null;
+    };
+
+    render(
+      <Provider store={parent}>
+        <Provider scoped>
+          <Inner />
+        </Provider>
+      </Provider>
+    );
+
+    act(() => scoped.setState({ title: 'Edited' }));
+    act(() => scopeState.commit());
+
+    expect(parent.getState().title).toBe('Draft');
+    expect(scoped.getState().title).toBe('Edited');
+    expect(scopeState.isDirty).toBe(true);
+
+    locked = false;
+    act(() => scoped.setState({ title: 'Invalid' }));
+    expect(() => act(() => scopeState.commit())).toThrow(
+      StateValidationError
+    );
+    expect(scoped.getState().title).toBe('Invalid');
+    expect(scopeState.isDirty).toBe(true);
+
+    act(() => scoped.setState({ title: 'Saved' }));
+    act(() => scopeState.commit());
+
+    expect(parent.getState().title).toBe('Saved');
+    expect(scopeState.isDirty).toBe(false);
+  });
+
+  it('validates scoped updates and reports only committed ones', () => {
+    const onInvalid = vi.fn();
+    const onChange = vi.fn();
+    const seen = vi.fn();
+    const { Provider, useStore, useScope, createStore } =
+      createSelectiveContext(
+        { title: 'Draft', count: 0 },
+        {
+          validate: (state) => state.title !== '',
+          onInvalid,
+          onChange,
+          middleware: [
+            () => (next) => (partial, action, replace) => {
+              seen(action);
+              next(partial, action, replace);
+            },
+          ],
+        }
+      );
+    const parent = createStore();
+    let scoped = parent;
+    let commit = () => {};
+
+    const Inner = () => {
+      scoped = useStore();
+      commit = useScope((scope) => scope.commit);
+      return null;
+    };
+
+    render(
+      <Provider store={parent}>
+        <Provider scoped={['title']}>
+          <Inner />
+        </Provider>
+      </Provider>
+    );
+
+    act(() => scoped.setState({ title: '' }));
+
+    expect(onInvalid).toHaveBeenCalledTimes(1);
+    expect(scoped.getState().title).toBe('Draft');
+
+    act(() => scoped.setState({ title: 'Local' }, 'rename'));
+    act(() => parent.setState({ count: 1 }, 'parent'));
+    act(() => scoped.setState({ count: 2 }, 'forward'));
+
+    expect(seen.mock.calls).toEqual([['parent'], ['forward']]);
+    expect(onChange.mock.calls.map(([change]) => change.action)).toEqual([
+      'parent',
+      'forward',
+    ]);
+
+    act(() => commit());
+
+    expect(onChange).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        action: 'scope/commit',
+        changedKeys: ['title'],
+      })
+    );
+  });
+
+  it('keeps and commits keys removed in the scope', () => {
+    const { Provider, useStore, useScope, createStore } =
+      createSelectiveContext<Record<string, string>>({
+        title: 'Draft',
+        note: 'Text',
+        tag: 'a',
+      });
+    const parent = createStore();
+    let scoped = parent;
+    let scopeState!: { dirtyKeys: string[]; commit: () => void };
+
+    const Inner = () => {
+      scoped = useStore();
+      scopeState = useScope((scope) => scope);
+      return null;
+    };
+
+    render(
+      <Provider store={parent}>
+        <Provider scoped={['note']}>
+          <Inner />
+        </Provider>
+      </Provider>
+    );
+
+    act(() => scoped.replace({ title: 'Draft' }));
+
+    expect(parent.getState()).toEqual({ title: 'Draft', note: 'Text' });
+    expect(scopeState.dirtyKeys).toEqual(['note']);
+
+    act(() => scopeState.commit());
+
+    expect(parent.getState()).toEqual({ title: 'Draft' });
+    expect(scoped.getState()).toEqual({ title: 'Draft' });
+    expect(scopeState.dirtyKeys).toEqual([]);
+
+    act(() => parent.replace({ note: 'New' }));
+
+    expect(scoped.getState()).toEqual({ note: 'New' });
+  });
+
+  it('throws when useScope is used under a Provider that is not scoped', () => {
+    const { Provider, useScope } = createRecordContext();
+    const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const Probe = () => {
+      useScope((scope) => scope.isDirty);
+      return null;
+    };
+
+    expect(() =>
+      render(
+        <Provider>
+          <Probe />
+        </Provider>
+      )
+    ).toThrow('The nearest Provider is not scoped');
+
+    consoleSpy.mockRestore();
+  });
+});
@@ -0,0 +1,109 @@
+import React from 'react';
+import { describe, it, expect, vi } from 'vitest';
+import { createSelectiveContext, createSelector } from '../index';
+import { render, screen, fireEvent } from '@testing-library/react';
+
+interface TodoState {
+  items: { id: number; completed: boolean }[];
+  filter: 'all' | 'completed';
+  title: string;
+}
+
+const initialState: TodoState = {
+  items: [
+    { id: 1, completed: true },
+    { id: 2, completed: false },
+    { id: 3, completed: true },
+  ],
+  filter: 'completed',
+  title: 'Todos',
+};
+
+describe('createSelector', () => {
+  it('recomputes only when inputs change', () => {
+    const combiner = vi.fn(
+      (items: TodoState['items'], filter: TodoState['filter']) =>
+        filter === 'all' ? items : items.filter((item) => item.completed)
+    );
+    const selectVisible = createSelector(
+      [(state: TodoState) => state.items, (state: TodoState) => state.filter],
+      combiner
+    );
+
+    const first = selectVisible(initialState);
+    const second = selectVisible({ ...initialState, title: 'Renamed' });
+
+    expect(first).toEqual([
+      { id: 1, completed: true },
+      { id: 3, completed: true },
+    ]);
+    expect(second).toBe(first);
+    expect(combiner).toHaveBeenCalledTimes(1);
+    expect(selectVisible.recomputations()).toBe(1);
+
+    const third = selectVisible({ ...initialState, filter: 'all' });
+
+    expect(third).toBe(initialState.items);
+    expect(selectVisible.recomputations()).toBe(2);
+  });
+
+  it('returns the cached result for the same state', () => {
+    const selectCount = createSelector(
+      [(state: TodoState) => state.items],
+      (items) => items.length
+    );
+
+    selectCount(initialState);
+    selectCount(initialState);
+
+    expect(selectCount.recomputations()).toBe(1);
+  });
+
+  it('plugs into useContext without re-rendering on unrelated updates', () => {
+    const { Provider, useContext } = createSelectiveContext(initialState);
+    const selectCompleted = createSelector(
+      [(state: TodoState) => state.items],
+      (items) => items.filter((item) => item.completed)
+    );
+
+    const Completed = vi.fn(() => {
+      const [completed] = useContext(selectCompleted);
+      return <span>Completed: {completed.length}</span>;
+    });
+
+    const Controls = () => {
+      const [, setState] = useContext(() => null);
+      return (
+        <div>
+          <button onClick={() => setState({ title: 'Renamed' })}>Rename</button>
+          <button
+            onClick={() =>
+              setState((state) => ({
+                items: state.items.map((item) => ({ ...item, completed: true })),
+              }))
+            }
+          >
+            Complete All
+          </button>
+        </div>
+      );
+    };
+
+    render(
+      <Provider>
+        <Completed />
+        <Controls />
+      </Provider>
+    );
+
+    Completed.mockClear();
+
+    fireEvent.click(screen.getByText('Rename'));
+    expect(Completed).toHaveBeenCalledTimes(0);
+    expect(selectCompleted.recomputations()).toBe(1);
+
+    fireEvent.click(screen.getByText('Complete All'));
+    expect(screen.getByText('Completed: 3')).toBeInTheDocument();
+    expect(selectCompleted.recomputations()).toBe(2);
+  });
+});
@@ -0,0 +1,99 @@
+import React from 'react';
+import { describe, it, expect, vi } from 'vitest';
+import { createSelectiveContext } from '../index';
+import { render, screen, fireEvent } from '@testing-library/react';
+
+describe('setter-only hooks', () => {
+  it('updates state without re-rendering the dispatching component', () => {
+    const { Provider, useContext, useSetContext, useStore } =
+      createSelectiveContext({ count: 0 });
+    const renders = { increment: 0, reset: 0 };
+
+    const Count = () => {
+      const [count] = useContext((state) => state.count);
+      return <span data-testid="count">{count}</span>;
+    };
+
+    const Increment = () => {
+      renders.increment++;
+      const setState = useSetContext();
+      return (
+        <button
+          onClick={() => setState((state) => ({ count: state.count + 1 }))}
+        >
+          Increment
+        </button>
+      );
+    };
+
+    const Reset = () => {
+      renders.reset++;
+      const store = useStore();
+      return (
+        <button
+          onClick={() => {
+            if (store.getState().count > 0) {
+              store.setState({ count: 0 });
+            }
+          }}
+        >
+          Reset
+        </button>
+      );
+    };
+
+    render(
+      <Provider>
+        <Count />
+        <Increment />
+        <Reset />
+      </Provider>
+    );
+
+    fireEvent.click(screen.getByText('Increment'));
+    fireEvent.click(screen.getByText('Increment'));
+    expect(screen.getByTestId('count').textContent).toBe('2');
+
+    fireEvent.click(screen.getByText('Reset'));
+    expect(screen.getByTestId('count').textContent).toBe('0');
+
+    expect(renders).toEqual({ increment: 1, reset: 1 });
+  });
+
+  it('returns the setter of the nearest store', () => {
+    const { Provider, useContext, useSetContext } = createSelectiveContext({
+      count: 0,
+    });
+    const setters: unknown[] = [];
+
+    const Probe = () => {
+      const setState = useSetContext();
+      const [, setFromContext] = useContext((state) => state.count);
+      setters.push(setState, setFromContext);
+      return null;
+    };
+
+    render(
+      <Provider>
+        <Probe />
+      </Provider>
+    );
+
+    expect(setters[0]).toBe(setters[1]);
+  });
+
+  it('throws outside a Provider', () => {
+    const { useSetContext } = createSelectiveContext({ count: 0 });
+
+    const Orphan = () => {
+      useSetContext();
+      return null;
+    };
+
+    const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    expect(() => render(<Orphan />)).toThrow('Context creation error');
+
+    consoleSpy.mockRestore();
+  });
+});
@@ -0,0 +1,135 @@
+import React from 'react';
+import { describe, it, expect } from 'vitest';
+import { combineSlices, createSelectiveContext, createSlice } from '../index';
+import { render, screen, fireEvent } from '@testing-library/react';
+
+const todos = createSlice({
+  name: 'todos',
+  initialState: { items: [] as { title: string; done: boolean }[] },
+  actions: (set, get) => ({
+    add(title: string) {
+      set.draft((state) => {
+        state.items.push({ title, done: false });
+      }, 'todos/add');
+    },
+    toggle(index: number) {
+      set.updateIn(['items', index, 'done'], (done) => !done);
+    },
+    count: () => get().items.length,
+  }),
+});
+
+const user = createSlice({
+  name: 'user',
+  initialState: { name: 'Guest', visits: 0 },
+  actions: (set) => ({
+    rename(name: string) {
+      set({ name });
+    },
+    visit() {
+      set((state) => ({ visits: state.visits + 1 }));
+    },
+  }),
+});
+
+const createAppContext = () => {
+  const { initialState, actions } = combineSlices(todos, user);
+  return createSelectiveContext(initialState, { actions });
+};
+
+describe('slices', () => {
+  it('combines the initial state of every slice by name', () => {
+    const { initialState } = combineSlices(todos, user);
+
+    expect(initialState).toEqual({
+      todos: { items: [] },
+      user: { name: 'Guest', visits: 0 },
+    });
+  });
+
+  it('namespaces actions that only update their own slice', () => {
+    const { createStore, useActions, Provider } = createAppContext();
+    const store = createStore();
+    let actions!: ReturnType<typeof useActions>;
+
+    const Probe = () => {
+      actions = useActions();
+      return null;
+    };
+
+    render(
+      <Provider store={store}>
+        <Probe />
+      </Provider>
+    );
+
+    const before = store.getState();
+
+    actions.todos.add('Write tests');
+    actions.todos.toggle(0);
+    actions.user.rename('Ada');
+    actions.user.visit();
+
+    const state = store.getState();
+
+    expect(state.todos.items).toEqual([{ title: 'Write tests', done: true }]);
+    expect(state.user).toEqual({ name: 'Ada', visits: 1 });
+    expect(actions.todos.count()).toBe(1);
+    expect(before.user).toEqual({ name: 'Guest', visits: 0 });
+  });
+
+  it('keeps other slices untouched and skips no-op updates', () => {
+    const { createStore, useActions, Provider } = createAppContext();
+    const store = createStore();
+    let actions!: ReturnType<typeof useActions>;
+    let changes = 0;
+
+    store.subscribe(() => changes++);
+
+    const Probe = () => {
+      actions = useActions();
+      return null;
+    };
+
+    render(
+      <Provider store={store}>
+        <Probe />
+      </Provider>
+    );
+
+    const todosBefore = store.getState().todos;
+
+    actions.user.rename('Ada');
+    actions.user.rename('Ada');
+
+    expect(store.getState().todos).toBe(todosBefore);
+    expect(changes).toBe(1);
+  });
+
+  it('renders combined state through selectors', () => {
+    const { Provider, useContext, useActions } = createAppContext();
+
+    const App = () => {
+      const [name] = useContext((state) => state.user.name);
+      const [count] = useContext((state) => state.todos.items.length);
+      const { todos: todoActions } = useActions();
+      return (
+        <div>
+          <span data-testid="summary">
+            {name}: {count}
+          </span>
+          <button onClick={() => todoActions.add('New')}>Add</button>
+        </div>
+      );
+    };
+
+    render(
+      <Provider>
+        <App />
+      </Provider>
+    );
+
+    fireEvent.click(screen.getByText('Add'));
+    expect(screen.getByTestId('summary').textContent).toBe('Guest: 1');
+  });
+});
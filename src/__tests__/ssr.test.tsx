@@ -0,0 +1,147 @@
+import React from 'react';
+import { describe, it, expect, vi } from 'vitest';
+import { renderToString } from 'react-dom/server';
+import { hydrateRoot } from 'react-dom/client';
+import { act } from '@testing-library/react';
+import { createSelectiveContext, dehydrate, hydrate } from '../index';
+
+interface FeedState {
+  posts: { id: number; title: string }[];
+  loadedAt: Date | null;
+  tags: Map<string, number>;
+  seen: Set<number>;
+  cursor: string | undefined;
+}
+
+const initialState: FeedState = {
+  posts: [],
+  loadedAt: null,
+  tags: new Map(),
+  seen: new Set(),
+  cursor: undefined,
+};
+
+describe('SSR', () => {
+  it('renders the state held by the Provider store on the server', () => {
+    const { Provider, useContext, createStore } =
+      createSelectiveContext(initialState);
+    const store = createStore({ posts: [{ id: 1, title: 'Server post' }] });
+
+    const Feed = () => {
+      const [posts] = useContext((state) => state.posts);
+      return <span>{posts.map((post) => post.title).join(',')}</span>;
+    };
+
+    const html = renderToString(
+      <Provider store={store}>
+        <Feed />
+      </Provider>
+    );
+
+    expect(html).toContain('Server post');
+  });
+
+  it('round-trips Dates, Maps, Sets and undefined values', () => {
+    const { createStore } = createSelectiveContext(initialState);
+    const state: FeedState = {
+      posts: [{ id: 1, title: 'Post' }],
+      loadedAt: new Date('2024-01-02T03:04:05.000Z'),
+      tags: new Map([['react', 2]]),
+      seen: new Set([1, 2]),
+      cursor: undefined,
+    };
+
+    const restored = hydrate<FeedState>(dehydrate(createStore(state)));
+
+    expect(restored).toEqual(state);
+    expect(restored.loadedAt).toBeInstanceOf(Date);
+    expect(restored.tags).toBeInstanceOf(Map);
+    expect(restored.seen).toBeInstanceOf(Set);
+    expect('cursor' in restored).toBe(true);
+  });
+
+  it('escapes markup so the result can be inlined in a script tag', () => {
+    const { createStore } = createSelectiveContext({ html: '' });
+    const dehydrated = dehydrate(createStore({ html: '</script><script>' }));
+
+    expect(dehydrated).not.toContain('<');
+    expect(hydrate(dehydrated)).toEqual({ html: '</script><script>' });
+  });
+
+  it('hydrates the client without a mismatch', async () => {
+    const { Provider, useContext, createStore } =
+      createSelectiveContext(initialState);
+
+    const Feed = () => {
+      const [posts] = useContext((state) => state.posts);
+      const [loadedAt] = useContext((state) => state.loadedAt);
+      return (
+        <p>
+          {posts.length} posts at {loadedAt ? loadedAt.toISOString() : 'never'}
+        </p>
+      );
+    };
+
+    const serverStore = createStore({
+      posts: [{ id: 1, title: 'First' }],
+      loadedAt: new Date('2024-01-02T03:04:05.000Z'),
+    });
+    const dehydratedState = dehydrate(serverStore);
+    const html = renderToString(
+      <Provider store={serverStore}>
+        <Feed />
+      </Provider>
+    );
+    const container = document.createElement('div');
+    container.innerHTML = html;
+    document.body.appendChild(container);
+    const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const onRecoverableError = vi.fn();
+
+    const root = await act(async () =>
+      hydrateRoot(
+        container,
+        <Provider dehydratedState={dehydratedState}>
+          <Feed />
+        </Provider>,
+        { onRecoverableError }
+      )
+    );
+
+    expect(container.textContent).toBe('1 posts at 2024-01-02T03:04:05.000Z');
+    expect(onRecoverableError).not.toHaveBeenCalled();
+    expect(consoleSpy).not.toHaveBeenCalled();
+
+    consoleSpy.mockRestore();
+    act(() => root.unmount());
+    container.remove();
+  });
+
+  it('applies the dehydrated state over the initialState prop', () => {
+    const { Provider, useContext, createStore } = createSelectiveContext({
+      count: 0,
+      name: '',
+    });
+    const dehydratedState = dehydrate(createStore({ count: 5, name: 'server' }));
+
+    const Counter = () => {
+      const [state] = useContext((state) => state);
+      return (
+        <span>
+          {state.name}: {state.count}
+        </span>
+      );
+    };
+
+    const html = renderToString(
+      <Provider
+        initialState={{ name: 'client' }}
+        dehydratedState={dehydratedState}
+      >
+        <Counter />
+      </Provider>
+    );
+
+    expect(html).toContain('server<!-- -->: <!-- -->5');
+  });
+});
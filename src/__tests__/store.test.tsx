@@ -0,0 +1,89 @@
+import React from 'react';
+import { describe, it, expect, vi } from 'vitest';
+import { createSelectiveContext, createSelectiveStore } from '../index';
+import { render, screen, fireEvent, act } from '@testing-library/react';
+
+describe('createSelectiveStore', () => {
+  it('reads and merges state outside of React', () => {
+    const store = createSelectiveStore({ count: 0, name: 'John' });
+
+    store.setState({ count: 1 });
+    store.setState((state) => ({ count: state.count + 1 }));
+
+    expect(store.getState()).toEqual({ count: 2, name: 'John' });
+  });
+
+  it('notifies listeners with the next and previous state', () => {
+    const store = createSelectiveStore({ count: 0 });
+    const listener = vi.fn();
+
+    store.subscribe(listener);
+    store.setState({ count: 1 });
+
+    expect(listener).toHaveBeenCalledWith({ count: 1 }, { count: 0 }, undefined);
+
+    store.setState({ count: 2 }, 'increment');
+
+    expect(listener).toHaveBeenLastCalledWith(
+      { count: 2 },
+      { count: 1 },
+      'increment'
+    );
+  });
+
+  it('stops notifying after unsubscribe and destroy', () => {
+    const store = createSelectiveStore({ count: 0 });
+    const first = vi.fn();
+    const second = vi.fn();
+
+    const unsubscribe = store.subscribe(first);
+    store.subscribe(second);
+
+    unsubscribe();
+    store.setState({ count: 1 });
+    expect(first).not.toHaveBeenCalled();
+    expect(second).toHaveBeenCalledTimes(1);
+
+    store.destroy();
+    store.setState({ count: 2 });
+    expect(second).toHaveBeenCalledTimes(1);
+    expect(store.getState()).toEqual({ count: 2 });
+  });
+
+  it('calls the update callback with the new state', () => {
+    const updateCallback = vi.fn();
+    const store = createSelectiveStore({ count: 0 }, updateCallback);
+
+    store.setState({ count: 3 });
+
+    expect(updateCallback).toHaveBeenCalledWith({ count: 3 });
+  });
+
+  it('binds to a context through the Provider store prop', () => {
+    const store = createSelectiveStore({ count: 0 });
+    const { Provider, useContext } = createSelectiveContext({ count: 0 });
+
+    const TestComponent = () => {
+      const [count, setState] = useContext((state) => state.count);
+      return (
+        <button onClick={() => setState({ count: count + 1 })}>
+          Count: {count}
+        </button>
+      );
+    };
+
+    render(
+      <Provider store={store}>
+        <TestComponent />
+      </Provider>
+    );
+
+    act(() => {
+      store.setState({ count: 5 });
+    });
+    expect(screen.getByText('Count: 5')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByText('Count: 5'));
+    expect(store.getState().count).toBe(6);
+  });
+});
@@ -0,0 +1,304 @@
+import React from 'react';
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  createSelectiveContext,
+  type PersistStorage,
+  type SyncChannel,
+  type SyncMessage,
+} from '../index';
+import { render, screen, fireEvent, act } from '@testing-library/react';
+
+// In-process stand-in for BroadcastChannel that delivers on flush
+const createHub = () => {
+  const listeners = new Map<string, Set<(message: any) => void>>();
+  const queue: { name: string; sender: object; message: any }[] = [];
+  const sent: SyncMessage<any>[] = [];
+
+  const channel = (name: string): SyncChannel => {
+    const own = new Set<(message: any) => void>();
+    const endpoint = {
+      send: (message: SyncMessage<any>) => {
+        sent.push(message);
+        queue.push({ name, sender: endpoint, message });
+      },
+      subscribe: (listener: (message: SyncMessage<any>) => void) => {
+        own.add(listener);
+        if (!listeners.has(name)) {
+          listeners.set(name, new Set());
+        }
+        listeners.get(name)!.add(listener);
+        return () => {
+          own.delete(listener);
+          listeners.get(name)!.delete(listener);
+        };
+      },
+      close: () => {
+        own.forEach((listener) => listeners.get(name)?.delete(listener));
+      },
+    };
+
+    return Object.assign(endpoint, { own });
+  };
+
+  const flush = () => {
+    while (queue.length) {
+      const { name, sender, message } = queue.shift()!;
+      listeners.get(name)?.forEach((listener) => {
+        if (!(sender as any).own.has(listener)) {
+          listener(message);
+        }
+      });
+    }
+  };
+
+  return { channel, flush, sent };
+};
+
+describe('sync', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('applies changes from other tabs without echoing them back', () => {
+    const hub = createHub();
+    const { createStore } = createSelectiveContext(
+      { count: 0 },
+      { sync: { name: 'counter', channel: hub.channel } }
+    );
+    const tabA = createStore();
+    const tabB = createStore();
+
+    tabA.setState({ count: 1 });
+    hub.flush();
+
+    expect(tabB.getState()).toEqual({ count: 1 });
+    expect(hub.sent).toHaveLength(1);
+  });
+
+  it('does not broadcast state hydrated from an async storage', async () => {
+    const hub = createHub();
+    let resolve = (_value: string | null) => {};
+    const storage: PersistStorage = {
+      getItem: () => new Promise((done) => (resolve = done)),
+      setItem: async () => {},
+      removeItem: async () => {},
+    };
+    const { createStore } = createSelectiveContext(
+      { count: 0 },
+      {
+        persist: { key: 'counter', storage },
+        sync: { name: 'counter', channel: hub.channel },
+      }
+    );
+    const tab = createStore();
+
+    resolve(JSON.stringify({ state: { count: 5 }, version: 0 }));
+    await Promise.resolve();
+    await Promise.resolve();
+
+    expect(tab.getState()).toEqual({ count: 5 });
+    expect(hub.sent).toHaveLength(0);
+  });
+
+  it('synchronizes only the chosen keys', () => {
+    const hub = createHub();
+    const { createStore } = createSelectiveContext(
+      { cart: [] as string[], draft: '' },
+      { sync: { name: 'shop', keys: ['cart'], channel: hub.channel } }
+    );
+    const tabA = createStore();
+    const tabB = createStore();
+
+    tabA.setState({ cart: ['apple'], draft: 'note' });
+    hub.flush();
+
+    expect(tabB.getState()).toEqual({ cart: ['apple'], draft: '' });
+    expect(hub.sent[0].partial).toEqual({ cart: ['apple'] });
+  });
+
+  it('keeps the newer local value by default', () => {
+    vi.useFakeTimers();
+    const hub = createHub();
+    const { createStore } = createSelectiveContext(
+      { title: '' },
+      { sync: { name: 'doc', channel: hub.channel } }
+    );
+    const tabA = createStore();
+    const tabB = createStore();
+
+    tabA.setState({ title: 'from A' });
+    vi.advanceTimersByTime(10);
+    tabB.setState({ title: 'from B' });
+    hub.flush();
+
+    expect(tabA.getState().title).toBe('from B');
+    expect(tabB.getState().title).toBe('from B');
+  });
+
+  it('applies remote values with remote-wins', () => {
+    vi.useFakeTimers();
+    const hub = createHub();
+    const { createStore } = createSelectiveContext(
+      { title: '' },
+      { sync: { name: 'doc', conflict: 'remote-wins', channel: hub.channel } }
+    );
+    const tabA = createStore();
+    const tabB = createStore();
+
+    tabA.setState({ title: 'from A' });
+    vi.advanceTimersByTime(10);
+    tabB.setState({ title: 'from B' });
+    hub.flush();
+
+    expect(tabA.getState().title).toBe('from B');
+    expect(tabB.getState().title).toBe('from A');
+  });
+
+  it('resolves conflicts with a custom resolver and converges', () => {
+    vi.useFakeTimers();
+    const hub = createHub();
+    const conflict = vi.fn((_key, local: any, remote: any) =>
+      [...new Set([...local, ...remote])].sort()
+    );
+    const { createStore } = createSelectiveContext(
+      { tags: [] as string[] },
+      { sync: { name: 'tags', conflict, channel: hub.channel } }
+    );
+    const tabA = createStore();
+    const tabB = createStore();
+
+    tabA.setState({ tags: ['a'] });
+    vi.advanceTimersByTime(10);
+    tabB.setState({ tags: ['b'] });
+    hub.flush();
+
+    expect(conflict).toHaveBeenCalledWith('tags', ['b'], ['a']);
+    expect(tabA.getState().tags).toEqual(['a', 'b']);
+    expect(tabB.getState().tags).toEqual(['a', 'b']);
+  });
+
+  it('stops synchronizing when the store is destroyed', () => {
+    const hub = createHub();
+    const { createStore } = createSelectiveContext(
+      { count: 0 },
+      { sync: { name: 'counter', channel: hub.channel } }
+    );
+    const tabA = createStore();
+    const tabB = createStore();
+
+    tabB.destroy();
+    tabA.setState({ count: 1 });
+    hub.flush();
+
+    expect(tabB.getState()).toEqual({ count: 0 });
+  });
+
+  it('falls back to the storage event without BroadcastChannel', () => {
+    vi.stubGlobal('BroadcastChannel', undefined);
+    const { createStore } = createSelectiveContext(
+      { at: new Date(0) },
+      { sync: { name: 'clock' } }
+    );
+    const store = createStore();
+    const setItem = vi.spyOn(Storage.prototype, 'setItem');
+
+    store.setState({ at: new Date(1000) });
+    expect(setItem).toHaveBeenCalledWith('clock', expect.any(String));
+
+    window.dispatchEvent(
+      new StorageEvent('storage', {
+        key: 'clock',
+        newValue: JSON.stringify({
+          source: 'other-tab',
+          partial: { at: { __type: 'Date', value: '1970-01-01T00:00:02.000Z' } },
+          timestamp: Date.now(),
+        }),
+      })
+    );
+
+    expect(store.getState().at).toEqual(new Date(2000));
+
+    setItem.mockRestore();
+    vi.unstubAllGlobals();
+    store.destroy();
+  });
+
+  it('renders changes received from other tabs', () => {
+    const hub = createHub();
+    const { Provider, useContext, createStore } = createSelectiveContext(
+      { count: 0 },
+      { sync: { name: 'counter', channel: hub.channel } }
+    );
+    const otherTab = createStore();
+
+    const Counter = () => {
+      const [count, setState] = useContext((state) => state.count);
+      return (
+        <button onClick={() => setState({ count: count + 1 })}>
+          Count: {count}
+        </button>
+      );
+    };
+
+    render(
+      <Provider>
+        <Counter />
+      </Provider>
+    );
+
+    act(() => {
+      otherTab.setState({ count: 5 });
+      hub.flush();
+    });
+    expect(screen.getByText('Count: 5')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByText('Count: 5'));
+    hub.flush();
+    expect(otherTab.getState()).toEqual({ count: 6 });
+  });
+
+  it('opens the channel of a Provider store once it is mounted', () => {
+    const hub = createHub();
+    const channel = vi.fn(hub.channel);
+    const { Provider } = createSelectiveContext(
+      { count: 0 },
+      { sync: { name: 'counter', channel } }
+    );
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const Broken = () => {
+      throw new Error('render failed');
+    };
+
+    class Boundary extends React.Component<
+      { children: React.ReactNode },
+      { failed: boolean }
+    > {
+      state = { failed: false };
+
+      static getDerivedStateFromError() {
+        return { failed: true };
+      }
+
+      render() {
+        return this.state.failed ? 'Failed' : this.props.children;
+      }
+    }
+
+    render(
+      <Boundary>
+        <Provider>
+          <Broken />
+        </Provider>
+      </Boundary>
+    );
+
+    expect(screen.getByText('Failed')).toBeInTheDocument();
+    expect(channel).not.toHaveBeenCalled();
+
+    render(<Provider>{null}</Provider>);
+    expect(channel).toHaveBeenCalledTimes(1);
+
+    error.mockRestore();
+  });
+});
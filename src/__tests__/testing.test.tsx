@@ -0,0 +1,130 @@
+import React from 'react';
+import { describe, it, expect, vi } from 'vitest';
+import { createSelectiveContext } from '../index';
+import {
+  createRenderCounter,
+  renderContextHook,
+  renderWithContext,
+  spyOnStore,
+} from '../testing';
+import { screen } from '@testing-library/react';
+
+const createCounterContext = () =>
+  createSelectiveContext({ count: 0, name: 'counter' });
+
+describe('testing utilities', () => {
+  it('renders inside the Provider with initial state overrides', () => {
+    const context = createCounterContext();
+
+    const Count = () => {
+      const [count] = context.useContext((state) => state.count);
+      return <span data-testid="count">{count}</span>;
+    };
+
+    const { store, setState } = renderWithContext(<Count />, {
+      context,
+      initialState: { count: 5 },
+    });
+
+    expect(screen.getByTestId('count').textContent).toBe('5');
+
+    setState((state) => ({ count: state.count + 1 }));
+    expect(screen.getByTestId('count').textContent).toBe('6');
+    expect(store.getState().count).toBe(6);
+  });
+
+  it('renders a selector hook with an act-wrapped setter', () => {
+    const context = createCounterContext();
+    const { result, setState } = renderContextHook(
+      context,
+      (state) => state.name
+    );
+
+    expect(result.current).toBe('counter');
+
+    setState({ name: 'renamed' });
+    expect(result.current).toBe('renamed');
+
+    setState.setIn('name', 'by path');
+    expect(result.current).toBe('by path');
+  });
+
+  it('destroys the stores it creates on unmount', async () => {
+    const close = vi.fn();
+    const context = createSelectiveContext(
+      { count: 0 },
+      {
+        sync: {
+          name: 'counter',
+          channel: () => ({ send: () => {}, subscribe: () => () => {}, close }),
+        },
+      }
+    );
+    const created = renderWithContext(<span />, { context });
+    const store = context.createStore();
+    const given = renderContextHook(context, (state) => state.count, {
+      store,
+    });
+
+    created.unmount();
+    given.unmount();
+    await Promise.resolve();
+
+    expect(close).toHaveBeenCalledTimes(1);
+
+    store.destroy();
+    expect(close).toHaveBeenCalledTimes(2);
+  });
+
+  it('records every update of a store', () => {
+    const context = createCounterContext();
+    const store = context.createStore();
+    const spy = spyOnStore(store);
+
+    store.setState({ count: 1 }, 'increment');
+    store.setState({ name: 'b' });
+
+    expect(spy.actions).toEqual(['increment', undefined]);
+    expect(spy.updates[1].changedKeys).toEqual(['name']);
+    expect(spy.updates[1].prevState.name).toBe('counter');
+
+    spy.clear();
+    spy.restore();
+    store.setState({ count: 2 });
+    expect(spy.updates).toEqual([]);
+  });
+
+  it('counts renders per component', () => {
+    const context = createCounterContext();
+    const renders = createRenderCounter();
+
+    const Count = () => {
+      renders.track('Count');
+      const [count] = context.useContext((state) => state.count);
+      return <span>{count}</span>;
+    };
+
+    const Name = renders.wrap(() => {
+      const [name] = context.useContext((state) => state.name);
+      return <span>{name}</span>;
+    }, 'Name');
+
+    const { setState } = renderWithContext(
+      <>
+        <Count />
+        <Name />
+      </>,
+      { context }
+    );
+
+    setState({ count: 1 });
+    setState({ count: 2 });
+
+    expect(renders.counts()).toEqual({ Count: 3, Name: 1 });
+
+    renders.reset();
+    setState({ name: 'b' });
+    expect(renders.get('Count')).toBe(0);
+    expect(renders.get('Name')).toBe(1);
+  });
+});
@@ -0,0 +1,136 @@
+import React from 'react';
+import { describe, it, expect, vi } from 'vitest';
+import {
+  createSelectiveContext,
+  createSelectiveStore,
+  StateValidationError,
+  type StandardSchema,
+} from '../index';
+import { render, screen, fireEvent } from '@testing-library/react';
+
+type Profile = { name: string; age: number };
+
+// Minimal Standard Schema, shaped like the ones zod and valibot expose
+const profileSchema: StandardSchema<Profile> = {
+  '~standard': {
+    version: 1,
+    vendor: 'test',
+    validate: (value) => {
+      const { age } = value as Profile;
+      return typeof age === 'number' && age >= 0
+        ? { value: value as Profile }
+        : { issues: [{ message: 'age must be a positive number', path: ['age'] }] };
+    },
+  },
+};
+
+describe('validation', () => {
+  it('throws a typed error and keeps the previous state', () => {
+    const store = createSelectiveStore<Profile>(
+      { name: 'Ada', age: 36 },
+      { validate: (state) => state.name.length > 0 }
+    );
+    const listener = vi.fn();
+
+    store.subscribe(listener);
+
+    let error: unknown;
+    try {
+      store.setState({ name: '' }, 'rename');
+    } catch (caught) {
+      error = caught;
+    }
+
+    expect(error).toBeInstanceOf(StateValidationError);
+    expect((error as StateValidationError<Profile>).action).toBe('rename');
+    expect((error as StateValidationError<Profile>).state).toEqual({
+      name: '',
+      age: 36,
+    });
+    expect(store.getState()).toEqual({ name: 'Ada', age: 36 });
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it('accepts Standard Schema validators and reports their issues', () => {
+    const onInvalid = vi.fn();
+    const store = createSelectiveStore<Profile>(
+      { name: 'Ada', age: 36 },
+      { validate: profileSchema, onInvalid }
+    );
+
+    store.setState({ age: '37' as unknown as number });
+    expect(store.getState().age).toBe(36);
+    expect(onInvalid).toHaveBeenCalledTimes(1);
+
+    const error = onInvalid.mock.calls[0][0];
+    expect(error.issues).toEqual([
+      { message: 'age must be a positive number', path: ['age'] },
+    ]);
+    expect(error.message).toContain('age must be a positive number');
+
+    store.setState((state) => ({ age: state.age + 1 }));
+    expect(store.getState().age).toBe(37);
+  });
+
+  it('rolls back a batch when one of its updates is invalid', () => {
+    const store = createSelectiveStore<Profile>(
+      { name: 'Ada', age: 36 },
+      { validate: profileSchema }
+    );
+
+    expect(() =>
+      store.batch(() => {
+        store.setState({ name: 'Grace' });
+        store.setState({ age: -1 });
+      })
+    ).toThrow(StateValidationError);
+    expect(store.getState()).toEqual({ name: 'Ada', age: 36 });
+  });
+
+  it('rejects invalid updates of context stores through onInvalid', () => {
+    const onInvalid = vi.fn();
+    const { Provider, useContext } = createSelectiveContext<Profile>(
+      { name: 'Ada', age: 36 },
+      { validate: profileSchema, onInvalid }
+    );
+
+    const Age = () => {
+      const [age, setState] = useContext((state) => state.age);
+      return (
+        <div>
+          <span data-testid="age">{age}</span>
+          <button onClick={() => setState({ age: -5 })}>Invalid</button>
+          <button onClick={() => setState({ age: 40 })}>Valid</button>
+        </div>
+      );
+    };
+
+    render(
+      <Provider>
+        <Age />
+      </Provider>
+    );
+
+    fireEvent.click(screen.getByText('Invalid'));
+    expect(screen.getByTestId('age').textContent).toBe('36');
+    expect(onInvalid).toHaveBeenCalledTimes(1);
+
+    fireEvent.click(screen.getByText('Valid'));
+    expect(screen.getByTestId('age').textContent).toBe('40');
+  });
+
+  it('validates the replaced state without the removed keys', () => {
+    const store = createSelectiveStore<Record<string, number>>(
+      { a: 1, legacy: 1 },
+      { validate: (state) => !('legacy' in state) }
+    );
+
+    store.replace({ a: 2 });
+    expect(store.getState()).toEqual({ a: 2 });
+
+    expect(() => store.replace({ a: 3, legacy: 1 })).toThrow(
+      StateValidationError
+    );
+    expect(store.getState()).toEqual({ a: 2 });
+  });
+});
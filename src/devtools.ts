@@ -0,0 +1,132 @@
+import type { SelectiveStore } from './store';
+
+export interface DevtoolsOptions {
+  /** Instance name shown in the extension, defaults to 'SelectiveContext' */
+  name?: string;
+}
+
+export interface DevtoolsMessage {
+  type: string;
+  state?: string;
+  payload?: {
+    type: string;
+    nextLiftedState?: {
+      computedStates: { state: unknown }[];
+    };
+  };
+}
+
+export interface DevtoolsConnection {
+  init: (state: unknown) => void;
+  send: (action: { type: string } | null, state: unknown) => void;
+  /** Returns an unsubscribe function in the Redux DevTools extension */
+  subscribe: (listener: (message: DevtoolsMessage) => void) => unknown;
+}
+
+export interface DevtoolsExtension {
+  connect: (options: { name?: string }) => DevtoolsConnection;
+}
+
+declare global {
+  interface Window {
+    __REDUX_DEVTOOLS_EXTENSION__?: DevtoolsExtension;
+  }
+}
+
+/**
+ * Connects a store to the Redux DevTools extension. Every update is sent
+ * as an action named after the `setState` action argument, and time travel
+ * messages from the extension replace the state of the store with a
+ * `devtools/*` action, which history, persist, sync and validation skip.
+ * Does nothing when the extension is not installed.
+ *
+ * @param store - Store to inspect
+ * @param options - Instance name shown in the extension
+ * @returns Function that disconnects the store from the extension
+ */
+export const devtools = <State>(
+  store: SelectiveStore<State>,
+  options: DevtoolsOptions = {},
+) => {
+  const extension =
+    typeof window === 'undefined'
+      ? undefined
+      : window.__REDUX_DEVTOOLS_EXTENSION__;
+
+  if (!extension) {
+    return () => {};
+  }
+
+  const connection = extension.connect({
+    name: options.name ?? 'SelectiveContext',
+  });
+  const initialState = store.getState();
+  let applying = false;
+
+  // Updates coming from the extension must not be sent back to it
+  const apply = (state: State, action: string) => {
+    applying = true;
+    try {
+      store.replace(state, action);
+    } finally {
+      applying = false;
+    }
+  };
+
+  const unsubscribeStore = store.subscribe(
+    (state, _prevState, action = 'setState') => {
+      if (!applying) {
+        connection.send({ type: action }, state);
+      }
+    },
+  );
+
+  const unsubscribeConnection = connection.subscribe((message) => {
+    if (message.type !== 'DISPATCH' || !message.payload) {
+      return;
+    }
+
+    try {
+      switch (message.payload.type) {
+        case 'JUMP_TO_STATE':
+        case 'JUMP_TO_ACTION':
+          apply(JSON.parse(message.state as string), 'devtools/jump');
+          break;
+        case 'ROLLBACK':
+          apply(JSON.parse(message.state as string), 'devtools/rollback');
+          connection.init(store.getState());
+          break;
+        case 'RESET':
+          apply(initialState, 'devtools/reset');
+          connection.init(store.getState());
+          break;
+        case 'COMMIT':
+          connection.init(store.getState());
+          break;
+        case 'IMPORT_STATE': {
+          const liftedState = message.payload.nextLiftedState;
+          const computedStates = liftedState?.computedStates ?? [];
+          const lastState = computedStates[computedStates.length - 1];
+
+          if (lastState) {
+            apply(lastState.state as State, 'devtools/import');
+          }
+          connection.send(null, liftedState);
+          break;
+        }
+      }
+    } catch (error) {
+      console.error('Devtools message error:', error);
+    }
+  });
+
+  connection.init(initialState);
+
+  return () => {
+    unsubscribeStore();
+
+    if (typeof unsubscribeConnection === 'function') {
+      unsubscribeConnection();
+    }
+  };
+};
@@ -0,0 +1,232 @@
+const DRAFT_STATE = Symbol('draft state');
+
+interface DraftState {
+  base: any;
+  copy: any;
+  modified: boolean;
+  parent: DraftState | null;
+  finalized?: { value: any };
+  proxy: any;
+  revoke: () => void;
+}
+
+const isDraft = (value: unknown): boolean =>
+  !!value && (value as any)[DRAFT_STATE] !== undefined;
+
+const isDraftable = (value: unknown): value is object => {
+  if (Array.isArray(value)) {
+    return true;
+  }
+
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+
+  const prototype = Object.getPrototypeOf(value);
+
+  return prototype === Object.prototype || prototype === null;
+};
+
+const latest = (state: DraftState) => state.copy ?? state.base;
+
+const prepareCopy = (state: DraftState) => {
+  if (!state.copy) {
+    state.copy = Array.isArray(state.base)
+      ? state.base.slice()
+      : { ...state.base };
+  }
+};
+
+const markModified = (state: DraftState | null) => {
+  for (let current = state; current && !current.modified; ) {
+    current.modified = true;
+    current = current.parent;
+  }
+};
+
+/**
+ * Creates copy-on-write drafts of a state tree. Objects are only copied
+ * when they or one of their descendants are written to.
+ */
+const createScope = () => {
+  const drafts: DraftState[] = [];
+
+  const createDraft = (base: any, parent: DraftState | null) => {
+    const state: DraftState = {
+      base,
+      copy: null,
+      modified: false,
+      parent,
+      proxy: null,
+      revoke: () => {},
+    };
+
+    const { proxy, revoke } = Proxy.revocable(
+      Array.isArray(base) ? [] : {},
+      {
+        get(_target, prop) {
+          if (prop === DRAFT_STATE) {
+            return state;
+          }
+
+          const value = latest(state)[prop];
+
+          // Nested objects become drafts when first read from the base
+          if (
+            !isDraftable(value) ||
+            isDraft(value) ||
+            value !== state.base[prop] ||
+            !Object.prototype.hasOwnProperty.call(state.base, prop)
+          ) {
+            return value;
+          }
+
+          prepareCopy(state);
+          state.copy[prop] = createDraft(value, state).proxy;
+          return state.copy[prop];
+        },
+        set(_target, prop, value) {
+          const source = latest(state);
+
+          if (
+            Object.prototype.hasOwnProperty.call(source, prop) &&
+            Object.is(source[prop], value)
+          ) {
+            return true;
+          }
+
+          prepareCopy(state);
+          state.copy[prop] = value;
+          markModified(state);
+          return true;
+        },
+        deleteProperty(_target, prop) {
+          if (Object.prototype.hasOwnProperty.call(latest(state), prop)) {
+            prepareCopy(state);
+            delete state.copy[prop];
+            markModified(state);
+          }
+          return true;
+        },
+        has(_target, prop) {
+          return prop in latest(state);
+        },
+        ownKeys() {
+          return Reflect.ownKeys(latest(state));
+        },
+        getOwnPropertyDescriptor(_target, prop) {
+          const descriptor = Reflect.getOwnPropertyDescriptor(
+            latest(state),
+            prop,
+          );
+
+          return (
+            descriptor && {
+              ...descriptor,
+              writable: true,
+              // Arrays report the non-configurable length of the proxy target
+              configurable: !(Array.isArray(state.base) && prop === 'length'),
+              value: state.proxy[prop],
+            }
+          );
+        },
+        defineProperty() {
+          throw new Error('Drafts do not support defineProperty');
+        },
+        setPrototypeOf() {
+          throw new Error('Drafts do not support setPrototypeOf');
+        },
+      },
+    );
+
+    state.proxy = proxy;
+    state.revoke = revoke;
+    drafts.push(state);
+    return state;
+  };
+
+  // Replaces drafts nested in values that were assigned during the recipe
+  const finalizeValue = (value: any): any => {
+    if (isDraft(value)) {
+      return finalizeDraft(value[DRAFT_STATE]);
+    }
+
+    if (!isDraftable(value) || Object.isFrozen(value)) {
+      return value;
+    }
+
+    Object.keys(value).forEach((key) => {
+      const item = (value as any)[key];
+      const finalized = finalizeValue(item);
+
+      if (finalized !== item) {
+        (value as any)[key] = finalized;
+      }
+    });
+    return value;
+  };
+
+  const finalizeDraft = (state: DraftState): any => {
+    if (!state.modified) {
+      return state.base;
+    }
+
+    if (state.finalized) {
+      return state.finalized.value;
+    }
+
+    const { base, copy } = state;
+
+    state.finalized = { value: copy };
+    Object.keys(copy).forEach((key) => {
+      const value = copy[key];
+
+      if (isDraft(value)) {
+        copy[key] = finalizeDraft(value[DRAFT_STATE]);
+      } else if (!Object.is(value, base[key])) {
+        copy[key] = finalizeValue(value);
+      }
+    });
+    return copy;
+  };
+
+  const revokeAll = () => drafts.forEach((state) => state.revoke());
+
+  return { drafts, createDraft, finalizeValue, finalizeDraft, revokeAll };
+};
+
+/**
+ * Runs the recipe on a draft of the base state. Mutations of the draft
+ * produce a new state that shares every untouched branch with the base.
+ *
+ * @param base - State to draft
+ * @param recipe - Mutates the draft or returns a value
+ * @returns The produced state and the value returned by the recipe,
+ * with any drafts in it replaced by their final values
+ */
+export const produce = <State>(
+  base: State,
+  recipe: (draft: State) => unknown,
+): { next: State; returned: unknown } => {
+  if (!isDraftable(base)) {
+    return { next: base, returned: recipe(base) };
+  }
+
+  const scope = createScope();
+  const root = scope.createDraft(base, null);
+
+  try {
+    const returned = recipe(root.proxy);
+
+    return {
+      next: scope.finalizeDraft(root),
+      // Only nested drafts need a walk over the returned value
+      returned:
+        scope.drafts.length > 1 || returned === root.proxy
+          ? scope.finalizeValue(returned)
+          : returned,
+    };
+  } finally {
+    scope.revokeAll();
+  }
+};
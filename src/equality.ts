@@ -0,0 +1,127 @@
+/**
+ * Compares two values by identity and, for objects and arrays,
+ * by the identity of their first-level entries.
+ *
+ * @param a - Previous value
+ * @param b - Next value
+ * @returns True when both values are shallowly equal
+ */
+export const shallowEqual = <T>(a: T, b: T): boolean => {
+  if (Object.is(a, b)) {
+    return true;
+  }
+
+  if (
+    typeof a !== 'object' ||
+    typeof b !== 'object' ||
+    a === null ||
+    b === null ||
+    Object.getPrototypeOf(a) !== Object.getPrototypeOf(b)
+  ) {
+    return false;
+  }
+
+  if (a instanceof Map && b instanceof Map) {
+    if (a.size !== b.size) {
+      return false;
+    }
+    for (const [key, value] of a) {
+      if (!b.has(key) || !Object.is(value, b.get(key))) {
+        return false;
+      }
+    }
+    return true;
+  }
+
+  if (a instanceof Set && b instanceof Set) {
+    if (a.size !== b.size) {
+      return false;
+    }
+    for (const value of a) {
+      if (!b.has(value)) {
+        return false;
+      }
+    }
+    return true;
+  }
+
+  const keysA = Object.keys(a);
+
+  if (keysA.length !== Object.keys(b).length) {
+    return false;
+  }
+
+  return keysA.every(
+    (key) =>
+      Object.prototype.hasOwnProperty.call(b, key) &&
+      Object.is((a as any)[key], (b as any)[key]),
+  );
+};
+
+/**
+ * Recursively compares two values. Supports plain objects, arrays,
+ * Date, RegExp, Map and Set.
+ *
+ * @param a - Previous value
+ * @param b - Next value
+ * @returns True when both values are structurally equal
+ */
+export const deepEqual = <T>(a: T, b: T): boolean => {
+  if (Object.is(a, b)) {
+    return true;
+  }
+
+  if (
+    typeof a !== 'object' ||
+    typeof b !== 'object' ||
+    a === null ||
+    b === null ||
+    Object.getPrototypeOf(a) !== Object.getPrototypeOf(b)
+  ) {
+    return false;
+  }
+
+  if (a instanceof Date && b instanceof Date) {
+    return a.getTime() === b.getTime();
+  }
+
+  if (a instanceof RegExp && b instanceof RegExp) {
+    return a.toString() === b.toString();
+  }
+
+  if (a instanceof Map && b instanceof Map) {
+    if (a.size !== b.size) {
+      return false;
+    }
+    for (const [key, value] of a) {
+      if (!b.has(key) || !deepEqual(value, b.get(key))) {
+        return false;
+      }
+    }
+    return true;
+  }
+
+  if (a instanceof Set && b instanceof Set) {
+    if (a.size !== b.size) {
+      return false;
+    }
+    for (const value of a) {
+      if (!b.has(value)) {
+        return false;
+      }
+    }
+    return true;
+  }
+
+  const keysA = Object.keys(a);
+
+  if (keysA.length !== Object.keys(b).length) {
+    return false;
+  }
+
+  return keysA.every(
+    (key) =>
+      Object.prototype.hasOwnProperty.call(b, key) &&
+      deepEqual((a as any)[key], (b as any)[key]),
+  );
+};
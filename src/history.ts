@@ -0,0 +1,116 @@
+import { createSelectiveStore, type SelectiveStore } from './store';
+import { pick } from './utils';
+
+export interface HistoryOptions<State> {
+  /** Keys to record, defaults to the whole state */
+  keys?: (keyof State)[];
+  /** Maximum number of undo steps, defaults to 100 */
+  limit?: number;
+  /** Updates made within this many milliseconds of the previous one are undone together */
+  groupDelay?: number;
+}
+
+export interface HistoryState {
+  canUndo: boolean;
+  canRedo: boolean;
+  undo: () => void;
+  redo: () => void;
+  clearHistory: () => void;
+}
+
+/**
+ * Records snapshots of the store state so updates can be undone and redone.
+ *
+ * @param store - Store to record
+ * @param options - Recorded keys, depth limit and grouping delay
+ * @returns Store holding the undo/redo flags and actions
+ */
+export const history = <State>(
+  store: SelectiveStore<State>,
+  options: HistoryOptions<State> = {},
+): SelectiveStore<HistoryState> => {
+  const { keys, limit = 100, groupDelay = 0 } = options;
+  let past: Partial<State>[] = [];
+  let future: Partial<State>[] = [];
+  let lastRecordedAt = 0;
+  let travelling = false;
+
+  const updateStatus = () =>
+    status.setState({ canUndo: past.length > 0, canRedo: future.length > 0 });
+
+  const travel = (
+    from: Partial<State>[],
+    to: Partial<State>[],
+    action: string,
+  ) => {
+    const snapshot = from.pop();
+
+    if (!snapshot) {
+      return;
+    }
+
+    const state = store.getState();
+    // Recorded keys missing from the snapshot did not exist yet
+    const nextState = keys ? { ...state, ...snapshot } : (snapshot as State);
+
+    for (const key of keys ?? []) {
+      if (!(key in snapshot)) {
+        delete nextState[key];
+      }
+    }
+
+    to.push(pick(state, keys));
+    travelling = true;
+    try {
+      store.replace(nextState, action);
+    } finally {
+      travelling = false;
+    }
+    lastRecordedAt = 0;
+    updateStatus();
+  };
+
+  const status = createSelectiveStore<HistoryState>({
+    canUndo: false,
+    canRedo: false,
+    undo: () => travel(past, future, 'history/undo'),
+    redo: () => travel(future, past, 'history/redo'),
+    clearHistory: () => {
+      past = [];
+      future = [];
+      lastRecordedAt = 0;
+      updateStatus();
+    },
+  });
+
+  store.subscribe((state, prevState, action) => {
+    const unchanged =
+      keys && keys.every((key) => state[key] === prevState[key]);
+
+    // Restored state, possibly after an async storage was read, and devtools
+    // time travel are no steps
+    if (
+      travelling ||
+      unchanged ||
+      action?.startsWith('persist/') ||
+      action?.startsWith('devtools/')
+    ) {
+      return;
+    }
+
+    const now = Date.now();
+
+    if (!past.length || now - lastRecordedAt >= groupDelay) {
+      past.push(pick(prevState, keys));
+      if (past.length > limit) {
+        past.shift();
+      }
+    }
+
+    lastRecordedAt = now;
+    future = [];
+    updateStatus();
+  });
+
+  return status;
+};
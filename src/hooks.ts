@@ -0,0 +1,149 @@
+import { useCallback, useEffect, useRef, useSyncExternalStore } from 'react';
+
+import type { Instrumentation } from './instrument';
+import type { SelectiveStore, SliceListenerOptions } from './store';
+
+export type EqualityFn<Output> = (a: Output, b: Output) => boolean;
+
+export interface SelectorHookOptions {
+  /** Name of the calling hook, used in diagnostics */
+  hookName?: string;
+  /** Names the component in instrumentation metrics, defaults to `hookName` */
+  label?: string;
+  /** Receives the notifications and selector runs of the hook */
+  instrumentation?: Instrumentation;
+}
+
+/**
+ * Subscribes to the part of a store returned by the selector.
+ * The previous selection is reused while the state and selector are
+ * unchanged or the new selection is equal to it, so the snapshot stays stable.
+ * In development, selectors that throw or return a new reference for the
+ * same state are reported on the console.
+ *
+ * @param store - Store to subscribe to
+ * @param selector - Picks the value the component renders
+ * @param equalityFn - Compares the previous and next selection
+ * @param options - Hook name, label and instrumentation
+ */
+export const useStoreSelector = <State, Output>(
+  store: SelectiveStore<State>,
+  selector: (state: State) => Output,
+  equalityFn: EqualityFn<Output> = Object.is,
+  options: SelectorHookOptions = {},
+): Output => {
+  const { hookName = 'useContext', label = hookName, instrumentation } =
+    options;
+  const selection = useRef<{
+    state: State;
+    selector: (state: State) => Output;
+    value: Output;
+  } | null>(null);
+  const warnedUnstable = useRef(false);
+
+  // Only the first run is timed, the development check runs it again
+  const select = (state: State) => {
+    const startedAt = instrumentation ? performance.now() : 0;
+    let value: Output;
+
+    try {
+      value = selector(state);
+    } catch (error) {
+      if (process.env.NODE_ENV !== 'production') {
+        console.error(`${hookName}: the selector threw an error`, error);
+      }
+      throw error;
+    }
+
+    const time = instrumentation ? performance.now() - startedAt : 0;
+
+    if (
+      process.env.NODE_ENV !== 'production' &&
+      !warnedUnstable.current &&
+      !equalityFn(value, selector(state))
+    ) {
+      warnedUnstable.current = true;
+      console.warn(
+        `${hookName}: the selector returned a new reference for the same ` +
+          'state, so the component re-renders on every update. Return ' +
+          'values from the state, memoize with createSelector or pass an ' +
+          'equality function such as shallowEqual.',
+      );
+    }
+
+    return { value, time };
+  };
+
+  const getSelection = (state: State) => {
+    const cached = selection.current;
+
+    if (cached && cached.state === state && cached.selector === selector) {
+      return cached.value;
+    }
+
+    const { value, time } = select(state);
+    const unchanged = cached && equalityFn(cached.value, value);
+
+    instrumentation?.select(label, time, !!cached && !unchanged);
+
+    if (unchanged) {
+      selection.current = { state, selector, value: cached.value };
+      return cached.value;
+    }
+
+    selection.current = { state, selector, value };
+    return value;
+  };
+
+  const getSnapshot = () => getSelection(store.getState());
+
+  const subscribe = useCallback(
+    (onStoreChange: () => void) =>
+      store.subscribe(
+        instrumentation
+          ? () => {
+              instrumentation.notify();
+              onStoreChange();
+            }
+          : onStoreChange,
+      ),
+    [store, instrumentation],
+  );
+
+  // The server renders the state the Provider store actually holds
+  return useSyncExternalStore(subscribe, getSnapshot, getSnapshot);
+};
+
+/**
+ * Calls the listener when the selected slice of the store changes,
+ * without re-rendering the component. The latest selector and listener
+ * are used without resubscribing.
+ *
+ * @param store - Store to listen to
+ * @param selector - Picks the slice to watch
+ * @param listener - Called with the next and previous slice
+ * @param options - Equality function and whether to fire immediately
+ */
+export const useStoreListener = <State, Slice>(
+  store: SelectiveStore<State>,
+  selector: (state: State) => Slice,
+  listener: (slice: Slice, prevSlice: Slice) => void,
+  options?: SliceListenerOptions<Slice>,
+) => {
+  const latest = useRef({ selector, listener });
+
+  useEffect(() => {
+    latest.current = { selector, listener };
+  });
+
+  useEffect(
+    () =>
+      store.subscribe(
+        (state) => latest.current.selector(state),
+        (slice, prevSlice) => latest.current.listener(slice, prevSlice),
+        options,
+      ),
+    // Options are read once per subscription
+    [store],
+  );
+};
@@ -1,89 +1,583 @@
 import {
   createContext,
   useContext as useReactContext,
+  useEffect,
   useRef,
-  useCallback,
-  useSyncExternalStore,
 } from 'react';
 
+import { devtools, type DevtoolsOptions } from './devtools';
+import { history, type HistoryOptions, type HistoryState } from './history';
+import {
+  useStoreListener,
+  useStoreSelector,
+  type EqualityFn,
+} from './hooks';
+import {
+  createInstrumentation,
+  type InstrumentationStats,
+  type UpdateMetrics,
+} from './instrument';
+import { persist, type PersistOptions, type PersistState } from './persist';
+import { scope, type Scope, type ScopeState } from './scope';
+import { hydrate, type DehydratedState } from './ssr';
+import { sync, type SyncOptions } from './sync';
+import type { StateValidationError, StateValidator } from './validate';
+import {
+  createSelectiveStore,
+  type Middleware,
+  type SelectiveStore,
+  type SelectiveStoreOptions,
+  type SetState,
+  type SliceListenerOptions,
+  type StateChange,
+} from './store';
+
+export type {
+  DevtoolsOptions,
+  DevtoolsConnection,
+  DevtoolsExtension,
+  DevtoolsMessage,
+} from './devtools';
+export { shallowEqual, deepEqual } from './equality';
+export type { HistoryOptions, HistoryState } from './history';
+export type { Path, PathString, PathTuple, PathValue } from './path';
+export type { EqualityFn } from './hooks';
+export type { InstrumentationStats, UpdateMetrics } from './instrument';
+export {
+  createSelector,
+  type Selector,
+  type SelectorResults,
+  type MemoizedSelector,
+} from './selector';
+export {
+  createRecorder,
+  replay,
+  type ActionLog,
+  type RecordedUpdate,
+  type Recorder,
+  type RecorderOptions,
+  type Replayer,
+} from './recorder';
+export {
+  combineSlices,
+  createSlice,
+  type CombinedActions,
+  type CombinedState,
+  type Slice,
+  type SliceOptions,
+} from './slice';
+export { dehydrate, hydrate, type DehydratedState } from './ssr';
+export type {
+  SyncChannel,
+  SyncConflictResolver,
+  SyncMessage,
+  SyncOptions,
+} from './sync';
+export type {
+  PersistOptions,
+  PersistState,
+  PersistStorage,
+} from './persist';
+export type { ScopeState } from './scope';
+export {
+  StateValidationError,
+  type StandardSchema,
+  type StandardSchemaIssue,
+  type StateValidator,
+} from './validate';
+export {
+  createSelectiveStore,
+  type NewData,
+  type Listener,
+  type Commit,
+  type Middleware,
+  type SelectiveStore,
+  type SelectiveStoreOptions,
+  type SetState,
+  type SliceListenerOptions,
+  type StateChange,
+  type Subscribe,
+} from './store';
+
+export type ActionsFactory<State, Actions> = (
+  set: SetState<State>,
+  get: () => State,
+) => Actions;
+
+export interface SelectiveContextOptions<State, Actions = object> {
+  /**
+   * Names the context in React DevTools and error messages,
+   * e.g. `'Cart'` for `CartProvider` and `useCart`
+   */
+  name?: string;
+  /** Called with a JSON copy of the state after every update */
+  updateCallback?: (newState: State) => void;
+  /** Called with the previous and next state objects after every update */
+  onChange?: (change: StateChange<State>) => void;
+  /** Run in order around every update of every store, see `Middleware` */
+  middleware?: Middleware<State>[];
+  /** Predicate or Standard Schema checked against the state of every update */
+  validate?: StateValidator<State>;
+  /** Receives updates rejected by `validate`; when omitted they throw */
+  onInvalid?: (error: StateValidationError<State>) => void;
+  /** Saves the state to a storage and restores it when a store is created */
+  persist?: PersistOptions<State>;
+  /** Connects every store to the Redux DevTools extension when it is installed */
+  devtools?: boolean | DevtoolsOptions;
+  /** Records state snapshots so updates can be undone and redone */
+  history?: boolean | HistoryOptions<State>;
+  /** Synchronizes changes with the stores of other tabs */
+  sync?: SyncOptions<State>;
+  /**
+   * Measures every update of the stores used by the context hooks: `true`
+   * to collect `getStats()` totals, or a function also called per update
+   */
+  instrument?: boolean | ((metrics: UpdateMetrics) => void);
+  /** Defines the functions returned by `useActions`, created once per store */
+  actions?: ActionsFactory<State, Actions>;
+}
+
 /**
  * Creates a React context and associated hooks to manage state
  * with useSyncExternalStore. Allows subscribing to state changes.
  *
  * @param initialState - The initial state value
- * @param updateContextCallback - Optional callback when state changes
- * @returns Object with Context, Provider, and useContext hook
+ * @param options - Context options, or an update callback called when state changes
+ * @returns Object with Context, Provider, the useContext, useActions,
+ * usePersist, useHistory and useScope hooks, createStore and getStats
  */
-export const createSelectiveContext = <State,>(
+export const createSelectiveContext = <State, Actions = object>(
   initialState: State,
-  updateContextCallback?: (newState: State) => void,
+  options:
+    | SelectiveContextOptions<State, Actions>
+    | ((newState: State) => void) = {},
 ) => {
-  type NewData = Partial<State> | ((state: State) => Partial<State>);
-
-  function useContextStore(initialData: State) {
-    const data = useRef<State>(initialData);
-    const subscribers = useRef(new Set<() => void>());
-    const get = useCallback(() => data.current, []);
-
-    const set = useCallback((newData: NewData) => {
-      const updatedData =
-        typeof newData === 'function'
-          ? newData(data.current)
-          : (newData as object);
-
-      data.current = { ...data.current, ...updatedData };
-      subscribers.current.forEach((callback) => callback());
-      try {
-        updateContextCallback?.(JSON.parse(JSON.stringify(data.current)));
-      } catch (error) {
-        // Silently handle callback errors to prevent breaking the app
-        console.error('Update callback error:', error);
+  const {
+    name,
+    updateCallback,
+    onChange,
+    middleware,
+    validate,
+    onInvalid,
+    persist: persistOptions,
+    devtools: devtoolsOptions,
+    history: historyOptions,
+    sync: syncOptions,
+    actions: actionsFactory,
+    instrument,
+  } = typeof options === 'function' ? { updateCallback: options } : options;
+  const instrumentation = instrument
+    ? createInstrumentation(instrument === true ? undefined : instrument)
+    : undefined;
+  // Actions and status stores of the optional modules, per store
+  const modules = new WeakMap<
+    SelectiveStore<State>,
+    {
+      actions?: Actions;
+      persist?: SelectiveStore<PersistState>;
+      history?: SelectiveStore<HistoryState>;
+      scope?: SelectiveStore<ScopeState<State>>;
+      instrumented?: boolean;
+      /** Opens the connections of the store to the outside */
+      connect?: () => void;
+    }
+  >();
+
+  // Stores that were not created by this context get their modules on first use
+  const getModules = (store: SelectiveStore<State>) => {
+    if (!modules.has(store)) {
+      modules.set(store, {});
+    }
+
+    return modules.get(store)!;
+  };
+
+  type InitialData = Partial<State> | ((state: State) => Partial<State>);
+  type StoreType = SelectiveStore<State>;
+
+  const storeOptions: SelectiveStoreOptions<State> = {
+    updateCallback,
+    onChange,
+    middleware,
+    validate,
+    onInvalid,
+  };
+
+  /**
+   * Measures the updates of a store once, including stores passed to a
+   * Provider that were not created by the context. Must be called before
+   * the hooks subscribe so every update begins before they are notified.
+   *
+   * @param store - Store to measure
+   */
+  const instrumentStore = (store: StoreType) => {
+    if (!instrumentation || getModules(store).instrumented) {
+      return;
+    }
+
+    // Updates made by listeners are nested inside the one being notified
+    let depth = 0;
+
+    getModules(store).instrumented = true;
+    store.subscribe((_state, _prevState, action) => {
+      const level = ++depth;
+
+      instrumentation.begin(action);
+
+      // Listeners added during a notification are still called, so this
+      // one runs after every listener of the update
+      const unsubscribe = store.subscribe(() => {
+        if (level === depth) {
+          depth--;
+          unsubscribe();
+          instrumentation.end();
+        }
+      });
+    });
+  };
+
+  // Has no side effects outside the store until `connect` is called, so
+  // Providers can create it during render
+  const buildStore = (initialData?: InitialData): StoreType => {
+    const baseStore = createSelectiveStore<State>(
+      {
+        ...initialState,
+        ...(typeof initialData === 'function'
+          ? initialData(initialState)
+          : initialData),
+      },
+      storeOptions,
+    );
+    let stopSync: (() => void) | undefined;
+    let stopDevtools: (() => void) | undefined;
+    let connected = false;
+
+    const store = {
+      ...baseStore,
+      destroy: () => {
+        // Destroyed stores are never connected again
+        connected = true;
+        stopSync?.();
+        stopDevtools?.();
+        baseStore.destroy();
+      },
+    };
+
+    instrumentStore(store);
+
+    Object.assign(getModules(store), {
+      persist: persistOptions ? persist(store, persistOptions) : undefined,
+      history: historyOptions
+        ? history(store, historyOptions === true ? {} : historyOptions)
+        : undefined,
+    });
+
+    getModules(store).connect = () => {
+      if (connected) {
+        return;
       }
-    }, []);
 
-    const subscribe = useCallback((callback: () => void) => {
-      subscribers.current.add(callback);
-      return () => subscribers.current.delete(callback);
-    }, []);
+      connected = true;
+      if (syncOptions) {
+        stopSync = sync(store, syncOptions);
+      }
+      if (devtoolsOptions) {
+        stopDevtools = devtools(
+          store,
+          devtoolsOptions === true ? { name } : devtoolsOptions,
+        );
+      }
+    };
+
+    return store;
+  };
+
+  /**
+   * Creates a store outside of React so it can be shared or
+   * mounted later through `<Provider store={store}>`.
+   *
+   * @param initialData - Full or partial override of the initial state,
+   * or a lazy initializer receiving the context initial state
+   */
+  const createStore = (initialData?: InitialData): StoreType => {
+    const store = buildStore(initialData);
+
+    getModules(store).connect?.();
+
+    return store;
+  };
+
+  function useContextStore(
+    initialData?: InitialData,
+    store?: StoreType,
+    dehydratedState?: DehydratedState,
+    scoped?: boolean | (keyof State)[],
+  ) {
+    const parent = useReactContext(Context);
+    const ownStore = useRef<StoreType | null>(null);
+    const ownScope = useRef<Scope<State> | null>(null);
+    const mountedStore = useRef<StoreType | null>(null);
+    const scopeParent = !store && scoped ? parent : null;
+
+    useEffect(() => ownScope.current?.connect(), [scopeParent]);
 
-    return {
-      get,
-      set,
-      subscribe,
+    const getScopeStore = () => {
+      if (!ownScope.current) {
+        ownScope.current = scope(
+          scopeParent!,
+          Array.isArray(scoped) ? scoped : undefined,
+          typeof initialData === 'function'
+            ? initialData(scopeParent!.getState())
+            : initialData,
+          { validate, onInvalid },
+        );
+        getModules(ownScope.current.store).scope = ownScope.current.status;
+        instrumentStore(ownScope.current.store);
+      }
+
+      return ownScope.current.store;
     };
-  }
 
-  type StoreType = ReturnType<typeof useContextStore>;
+    const getOwnStore = () => {
+      if (!ownStore.current) {
+        ownStore.current = buildStore(
+          dehydratedState === undefined
+            ? initialData
+            : (state) => ({
+                ...(typeof initialData === 'function'
+                  ? initialData(state)
+                  : initialData),
+                ...hydrate<State>(dehydratedState),
+              }),
+        );
+      }
+
+      return ownStore.current;
+    };
+
+    const contextStore =
+      store ?? (scopeParent ? getScopeStore() : getOwnStore());
+    const owned = contextStore !== store;
+
+    // Stores created by the Provider are connected once mounted, as
+    // renders that are never committed do not clean up, and destroyed
+    // when it unmounts
+    useEffect(() => {
+      if (!owned) {
+        return;
+      }
+
+      mountedStore.current = contextStore;
+      getModules(contextStore).connect?.();
+
+      return () => {
+        mountedStore.current = null;
+
+        // Deferred so the immediate remount of StrictMode keeps the store
+        queueMicrotask(() => {
+          if (mountedStore.current === contextStore) {
+            return;
+          }
+
+          contextStore.destroy();
+
+          if (ownStore.current === contextStore) {
+            ownStore.current = null;
+          }
+          if (ownScope.current?.store === contextStore) {
+            ownScope.current = null;
+          }
+        });
+      };
+    }, [contextStore, owned]);
+
+    return contextStore;
+  }
 
   const Context = createContext<StoreType | null>(null);
+  const hookName = name ? `use${name}` : 'useContext';
 
-  const Provider: React.FC<{ children: React.ReactNode }> = ({ children }) => (
-    <Context.Provider value={useContextStore(initialState)}>
+  const Provider: React.FC<{
+    children: React.ReactNode;
+    initialState?: InitialData;
+    store?: StoreType;
+    dehydratedState?: DehydratedState;
+    scoped?: boolean | (keyof State)[];
+  }> = ({
+    children,
+    initialState: initialData,
+    store,
+    dehydratedState,
+    scoped,
+  }) => (
+    <Context.Provider
+      value={useContextStore(initialData, store, dehydratedState, scoped)}
+    >
       {children}
     </Context.Provider>
   );
 
-  const useContext = <Output,>(
-    selector: (state: State) => Output,
-  ): [Output, (value: NewData) => void] => {
+  if (name) {
+    Context.displayName = `${name}Context`;
+    Provider.displayName = `${name}Provider`;
+  }
+
+  /**
+   * Returns the nearest Provider store without subscribing to it.
+   * Read the current state with `getState()` inside event handlers.
+   */
+  const useStore = (): StoreType => {
     const context = useReactContext(Context);
 
     if (!context) {
-      throw new Error('Context creation error');
+      throw new Error(
+        name
+          ? `${hookName} must be used inside <${name}Provider>`
+          : 'Context creation error',
+      );
     }
 
-    const state = useSyncExternalStore(
-      context.subscribe,
-      () => selector(context.get()),
-      () => selector(initialState),
-    );
+    return context;
+  };
+
+  /**
+   * Returns the setter of the nearest Provider store. The setter is stable
+   * and the component is not subscribed, so updates never re-render it.
+   */
+  const useSetContext = (): SetState<State> => useStore().setState;
+
+  /**
+   * Returns the actions bound to the nearest Provider store.
+   * The functions are stable and the component is not subscribed to state.
+   */
+  const useActions = (): Actions => {
+    const store = useStore();
+    const storeModules = getModules(store);
+
+    if (!storeModules.actions) {
+      storeModules.actions = actionsFactory
+        ? actionsFactory(store.setState, store.getState)
+        : ({} as Actions);
+    }
+
+    return storeModules.actions;
+  };
+
+  /**
+   * Subscribes to the part of the nearest Provider state returned by
+   * the selector.
+   *
+   * @param selector - Picks the value the component renders
+   * @param equalityFnOrOptions - Equality function, or `{ equalityFn, label }`
+   * where `label` names the component in instrumentation metrics
+   */
+  const useContext = <Output,>(
+    selector: (state: State) => Output,
+    // Output is inferred from the selector only
+    equalityFnOrOptions?:
+      | EqualityFn<NoInfer<Output>>
+      | { equalityFn?: EqualityFn<NoInfer<Output>>; label?: string },
+  ): [Output, SetState<State>] => {
+    const context = useStore();
+
+    instrumentStore(context);
+
+    const { equalityFn, label } =
+      typeof equalityFnOrOptions === 'function'
+        ? { equalityFn: equalityFnOrOptions, label: undefined }
+        : (equalityFnOrOptions ?? {});
+    const state = useStoreSelector(context, selector, equalityFn, {
+      hookName,
+      label,
+      instrumentation,
+    });
+
+    return [state, context.setState];
+  };
+
+  /**
+   * Calls the listener when the selected slice of the nearest Provider
+   * store changes. The component is not re-rendered by updates.
+   *
+   * @param selector - Picks the slice to watch
+   * @param listener - Called with the next and previous slice
+   * @param options - `equalityFn` and `fireImmediately`
+   */
+  const useContextListener = <Slice,>(
+    selector: (state: State) => Slice,
+    listener: (slice: Slice, prevSlice: Slice) => void,
+    options?: SliceListenerOptions<Slice>,
+  ) => {
+    useStoreListener(useStore(), selector, listener, options);
+  };
+
+  /**
+   * Selects from the persistence status of the nearest Provider store.
+   *
+   * @param selector - Picks a value from `{ hasHydrated, rehydrate, clearStorage }`
+   */
+  const usePersist = <Output,>(
+    selector: (status: PersistState) => Output,
+  ): Output => {
+    const status = getModules(useStore()).persist;
+
+    if (!status) {
+      throw new Error('Persistence is not enabled for this store');
+    }
+
+    return useStoreSelector(status, selector);
+  };
+
+  /**
+   * Selects from the undo/redo history of the nearest Provider store.
+   *
+   * @param selector - Picks a value from `{ canUndo, canRedo, undo, redo, clearHistory }`
+   */
+  const useHistory = <Output,>(
+    selector: (history: HistoryState) => Output,
+  ): Output => {
+    const status = getModules(useStore()).history;
+
+    if (!status) {
+      throw new Error('History is not enabled for this store');
+    }
+
+    return useStoreSelector(status, selector);
+  };
+
+  /**
+   * Selects from the overrides of the nearest scoped Provider.
+   *
+   * @param selector - Picks a value from `{ isDirty, dirtyKeys, commit, discard }`
+   */
+  const useScope = <Output,>(
+    selector: (scope: ScopeState<State>) => Output,
+  ): Output => {
+    const status = getModules(useStore()).scope;
+
+    if (!status) {
+      throw new Error('The nearest Provider is not scoped');
+    }
 
-    return [state, context.set];
+    return useStoreSelector(status, selector);
   };
 
   return {
     Context,
     Provider,
     useContext,
+    useSetContext,
+    useStore,
+    useActions,
+    useContextListener,
+    usePersist,
+    useHistory,
+    useScope,
+    createStore,
+    /** Totals collected by the `instrument` option, all zero when it is off */
+    getStats: (): InstrumentationStats =>
+      instrumentation?.getStats() ?? createInstrumentation().getStats(),
+    /** Clears the totals returned by `getStats` */
+    resetStats: () => instrumentation?.resetStats(),
   };
 };
@@ -0,0 +1,118 @@
+export interface UpdateMetrics {
+  action?: string;
+  /** `useContext` subscriptions notified of the update */
+  notified: number;
+  /** Selectors run to look for changes */
+  selectorRuns: number;
+  /** Time spent in those selectors, in milliseconds */
+  selectorTime: number;
+  /** Selections that changed, each re-rendering its component */
+  changed: number;
+  /** Labels of the hooks whose selection changed */
+  rerendered: string[];
+}
+
+export interface InstrumentationStats {
+  /** Updates that changed the state of a store used by the context */
+  updates: number;
+  notified: number;
+  selectorRuns: number;
+  selectorTime: number;
+  changed: number;
+  /** Re-renders caused by changed selections, per hook label */
+  rerenders: Record<string, number>;
+}
+
+export interface Instrumentation {
+  /** Starts collecting the metrics of an update */
+  begin: (action?: string) => void;
+  /** Reports the metrics of the update started last */
+  end: () => void;
+  /** Records a notified subscription */
+  notify: () => void;
+  /** Records a selector run */
+  select: (label: string, time: number, changed: boolean) => void;
+  getStats: () => InstrumentationStats;
+  resetStats: () => void;
+}
+
+const emptyStats = (): InstrumentationStats => ({
+  updates: 0,
+  notified: 0,
+  selectorRuns: 0,
+  selectorTime: 0,
+  changed: 0,
+  rerenders: {},
+});
+
+/**
+ * Collects update metrics and keeps running totals. Updates made by
+ * listeners while another update is notified are measured separately.
+ *
+ * @param onUpdate - Called with the metrics of every update
+ * @returns Instrumentation used by the stores and hooks of a context
+ */
+export const createInstrumentation = (
+  onUpdate?: (metrics: UpdateMetrics) => void,
+): Instrumentation => {
+  let stats = emptyStats();
+  const updates: UpdateMetrics[] = [];
+
+  return {
+    begin: (action) => {
+      updates.push({
+        action,
+        notified: 0,
+        selectorRuns: 0,
+        selectorTime: 0,
+        changed: 0,
+        rerendered: [],
+      });
+    },
+    end: () => {
+      const metrics = updates.pop();
+
+      if (!metrics) {
+        return;
+      }
+
+      stats.updates++;
+      try {
+        onUpdate?.(metrics);
+      } catch (error) {
+        console.error('Instrumentation callback error:', error);
+      }
+    },
+    notify: () => {
+      const metrics = updates[updates.length - 1];
+
+      stats.notified++;
+      if (metrics) {
+        metrics.notified++;
+      }
+    },
+    select: (label, time, changed) => {
+      const metrics = updates[updates.length - 1];
+
+      stats.selectorRuns++;
+      stats.selectorTime += time;
+      if (changed) {
+        stats.changed++;
+        stats.rerenders[label] = (stats.rerenders[label] ?? 0) + 1;
+      }
+
+      if (metrics) {
+        metrics.selectorRuns++;
+        metrics.selectorTime += time;
+        if (changed) {
+          metrics.changed++;
+          metrics.rerendered.push(label);
+        }
+      }
+    },
+    getStats: () => ({ ...stats, rerenders: { ...stats.rerenders } }),
+    resetStats: () => {
+      stats = emptyStats();
+    },
+  };
+};
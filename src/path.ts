@@ -0,0 +1,105 @@
+type Leaf =
+  | string
+  | number
+  | boolean
+  | bigint
+  | symbol
+  | null
+  | undefined
+  | Date
+  | RegExp
+  | Map<unknown, unknown>
+  | Set<unknown>
+  | ((...args: any[]) => unknown);
+
+type Key = string | number;
+
+// Paths are limited in depth to keep type checking fast on recursive types
+type MaxDepth = [never, 0, 1, 2, 3, 4, 5, 6, 7];
+
+/** Tuple path into `T`, e.g. `['user', 'addresses', 0, 'city']` */
+export type PathTuple<T, Depth extends number = 8> = [Depth] extends [never]
+  ? never
+  : T extends Leaf
+    ? never
+    : T extends readonly (infer Item)[]
+      ? [number] | [number, ...PathTuple<Item, MaxDepth[Depth]>]
+      : {
+          [K in keyof T & Key]-?:
+            | [K]
+            | [K, ...PathTuple<NonNullable<T[K]>, MaxDepth[Depth]>];
+        }[keyof T & Key];
+
+type Join<P> = P extends [infer K extends Key]
+  ? `${K}`
+  : P extends [infer K extends Key, ...infer Rest]
+    ? `${K}.${Join<Rest>}`
+    : never;
+
+/** Dot separated path into `T`, e.g. `'user.addresses.0.city'` */
+export type PathString<T> = Join<PathTuple<T>>;
+
+export type Path<T> = PathTuple<T> | PathString<T>;
+
+type Split<S extends string> = S extends `${infer Head}.${infer Rest}`
+  ? [Head, ...Split<Rest>]
+  : [S];
+
+type TupleValue<T, P> = P extends [infer K, ...infer Rest]
+  ? T extends readonly (infer Item)[]
+    ? K extends number | `${number}`
+      ? TupleValue<Item, Rest>
+      : never
+    : K extends keyof T
+      ? TupleValue<T[K], Rest>
+      : never
+  : T;
+
+/** Type of the value found at path `P` in `T` */
+export type PathValue<T, P> = P extends string
+  ? TupleValue<T, Split<P>>
+  : TupleValue<T, P>;
+
+export const toKeys = (path: readonly Key[] | string): Key[] =>
+  typeof path === 'string' ? path.split('.') : [...path];
+
+/**
+ * Reads the value at the given keys.
+ *
+ * @param target - Object to read from
+ * @param keys - Keys from the outermost to the innermost level
+ */
+export const getIn = (target: unknown, keys: Key[]): any =>
+  keys.reduce<any>((value, key) => value?.[key], target);
+
+/**
+ * Returns a copy of `target` with the value at the given keys replaced.
+ * Only the objects along the path are copied, sibling branches keep their
+ * references, and `target` itself is returned when the value is the same.
+ *
+ * @param target - Object to update
+ * @param keys - Keys from the outermost to the innermost level
+ * @param value - New value
+ */
+export const setIn = (target: any, keys: Key[], value: unknown): any => {
+  if (!keys.length) {
+    return value;
+  }
+
+  const [key, ...rest] = keys;
+  const child = target?.[key];
+  const nextChild = setIn(
+    child ?? (/^\d+$/.test(String(rest[0])) ? [] : {}),
+    rest,
+    value,
+  );
+
+  if (target != null && key in Object(target) && Object.is(child, nextChild)) {
+    return target;
+  }
+
+  const copy = Array.isArray(target) ? target.slice() : { ...target };
+
+  copy[key] = nextChild;
+  return copy;
+};
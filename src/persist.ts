@@ -0,0 +1,179 @@
+import { createSelectiveStore, type SelectiveStore } from './store';
+import { pick } from './utils';
+
+export interface PersistStorage {
+  getItem: (key: string) => string | null | Promise<string | null>;
+  setItem: (key: string, value: string) => void | Promise<void>;
+  removeItem: (key: string) => void | Promise<void>;
+}
+
+export interface PersistOptions<State> {
+  /** Storage key the state is saved under */
+  key: string;
+  /** Web storage name or a custom (possibly async) storage, defaults to localStorage */
+  storage?: 'localStorage' | 'sessionStorage' | PersistStorage;
+  /** Keys to persist, defaults to the whole state */
+  partialize?: (keyof State)[];
+  /** Schema version saved along with the state, defaults to 0 */
+  version?: number;
+  /** Upgrades state saved with an older version */
+  migrate?: (persistedState: any, version: number) => Partial<State>;
+}
+
+export interface PersistState {
+  hasHydrated: boolean;
+  rehydrate: () => Promise<void>;
+  clearStorage: () => Promise<void>;
+}
+
+const resolveStorage = (
+  storage: PersistOptions<unknown>['storage'] = 'localStorage',
+): PersistStorage | null => {
+  if (typeof storage !== 'string') {
+    return storage;
+  }
+
+  try {
+    return typeof window === 'undefined' ? null : window[storage];
+  } catch {
+    // Accessing web storage throws when it is disabled by the browser
+    return null;
+  }
+};
+
+// Runs the callback right away for plain values and after resolving promises,
+// so synchronous storages hydrate before the first render
+const then = <T, R>(
+  value: T | Promise<T>,
+  callback: (value: T) => R,
+): R | Promise<R> =>
+  value instanceof Promise ? value.then(callback) : callback(value);
+
+/**
+ * Saves the store state to a storage on every update and restores it
+ * on creation. Hydration is synchronous for web storages and asynchronous
+ * for storages returning promises.
+ *
+ * @param store - Store to persist
+ * @param options - Storage key, adapter, partialize, version and migrate
+ * @returns Store holding the hydration status
+ */
+export const persist = <State>(
+  store: SelectiveStore<State>,
+  options: PersistOptions<State>,
+): SelectiveStore<PersistState> => {
+  const { key, partialize, version = 0, migrate } = options;
+  const storage = resolveStorage(options.storage);
+  let hydrating = false;
+  // Keys updated while an async storage is read, kept over the saved values
+  let updatedKeys = new Set<keyof State>();
+
+  // Saved keys outside `partialize` and keys updated meanwhile are dropped
+  const restore = (saved: Partial<State>, action: string) => {
+    const restored = pick<State>(saved, partialize);
+
+    updatedKeys.forEach((updatedKey) => delete restored[updatedKey]);
+    store.setState(restored, action);
+  };
+
+  const hydrate = (): void | Promise<void> => {
+    if (!storage) {
+      status.setState({ hasHydrated: true });
+      return;
+    }
+
+    hydrating = true;
+    updatedKeys = new Set();
+    status.setState({ hasHydrated: false });
+
+    const finish = () => {
+      hydrating = false;
+      // Updates made during hydration were not saved yet
+      if (updatedKeys.size) {
+        updatedKeys = new Set();
+        save(store.getState());
+      }
+      status.setState({ hasHydrated: true });
+    };
+
+    try {
+      const result = then(storage.getItem(key), (raw) => {
+        if (raw !== null) {
+          const saved = JSON.parse(raw) as { state: any; version?: number };
+          const savedVersion = saved.version ?? 0;
+
+          // State saved with another version is dropped unless it can be migrated
+          if (savedVersion === version) {
+            restore(saved.state, 'persist/hydrate');
+          } else if (migrate) {
+            restore(migrate(saved.state, savedVersion), 'persist/migrate');
+            // Write the migrated state back under the current version
+            hydrating = false;
+            save(store.getState());
+          }
+        }
+        finish();
+      });
+
+      return result instanceof Promise
+        ? result.catch((error) => {
+            console.error('Persist hydration error:', error);
+            finish();
+          })
+        : result;
+    } catch (error) {
+      console.error('Persist hydration error:', error);
+      finish();
+    }
+  };
+
+  const save = (state: State) => {
+    if (!storage || hydrating) {
+      return;
+    }
+
+    try {
+      const result = storage.setItem(
+        key,
+        JSON.stringify({ state: pick(state, partialize), version }),
+      );
+
+      if (result instanceof Promise) {
+        result.catch((error) => console.error('Persist save error:', error));
+      }
+    } catch (error) {
+      console.error('Persist save error:', error);
+    }
+  };
+
+  const status = createSelectiveStore<PersistState>({
+    hasHydrated: false,
+    rehydrate: async () => hydrate(),
+    clearStorage: async () => {
+      await storage?.removeItem(key);
+    },
+  });
+
+  store.subscribe((state, prevState, action) => {
+    if (hydrating && !action?.startsWith('persist/')) {
+      const stateKeys = new Set([
+        ...(Object.keys(prevState as object) as (keyof State)[]),
+        ...(Object.keys(state as object) as (keyof State)[]),
+      ]);
+
+      stateKeys.forEach((stateKey) => {
+        if (!Object.is(state[stateKey], prevState[stateKey])) {
+          updatedKeys.add(stateKey);
+        }
+      });
+    }
+
+    // Devtools time travel is saved by the next update only
+    if (!action?.startsWith('devtools/')) {
+      save(state);
+    }
+  });
+  hydrate();
+
+  return status;
+};
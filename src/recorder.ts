@@ -0,0 +1,208 @@
+import { deserialize, serialize } from './ssr';
+import type { SelectiveStore } from './store';
+
+export interface RecordedUpdate<State> {
+  /** Values the update changed or added, or the whole next state */
+  partial: Partial<State>;
+  timestamp: number;
+  action?: string;
+  /** Set when the update removed keys and `partial` is the whole state */
+  replace?: boolean;
+  /** Previous and next values of the keys the update changed or removed */
+  diff: { [Key in keyof State]?: { prev: State[Key]; next: State[Key] } };
+}
+
+export interface ActionLog<State> {
+  version: 1;
+  /** State before the first recorded update */
+  initialState: State;
+  updates: RecordedUpdate<State>[];
+}
+
+export interface RecorderOptions {
+  /** Maximum number of recorded updates, defaults to 1000 */
+  limit?: number;
+}
+
+export interface Recorder<State> {
+  /**
+   * Records the updates of a store until the returned function is called.
+   * Attaching another store stops recording the previous one and starts
+   * a new log
+   */
+  attach: (store: SelectiveStore<State>) => () => void;
+  getLog: () => ActionLog<State>;
+  /** The log as JSON, keeping Dates, Maps, Sets and BigInts */
+  exportLog: () => string;
+  clear: () => void;
+}
+
+export interface Replayer<State> {
+  /** Applies the next update and returns it, or undefined at the end */
+  step: () => RecordedUpdate<State> | undefined;
+  /** Applies every remaining update */
+  replayAll: () => void;
+  /** Number of updates applied so far */
+  readonly position: number;
+  readonly length: number;
+}
+
+/**
+ * Creates a recorder that keeps a bounded log of the updates of the store
+ * it is attached to. Only updates that changed the state are recorded, so
+ * rejected updates and batches that threw are left out, and a batch is
+ * recorded as one update. When the log is full, the oldest updates are
+ * folded into the initial state of the log, so it can still be replayed
+ * from the start.
+ *
+ * @param options - Maximum number of recorded updates
+ * @returns Recorder holding the log
+ */
+export const createRecorder = <State>({
+  limit = 1000,
+}: RecorderOptions = {}): Recorder<State> => {
+  let attached: SelectiveStore<State> | undefined;
+  let initialState: State | undefined;
+  let lastState: State | undefined;
+  let updates: RecordedUpdate<State>[] = [];
+  let unsubscribe = () => {};
+
+  const record = (state: State, _prevState: State, action?: string) => {
+    // Listeners that update the store make later listeners see the newer
+    // state, so each update is diffed against the last recorded state
+    const prevState = lastState as State;
+
+    if (state === prevState) {
+      return;
+    }
+
+    const diff: RecordedUpdate<State>['diff'] = {};
+    const partial: Partial<State> = {};
+    let removed = false;
+    const keys = new Set([
+      ...Object.keys(prevState as object),
+      ...Object.keys(state as object),
+    ]) as Set<keyof State>;
+
+    for (const key of keys) {
+      const present = key in (state as object);
+
+      if (
+        Object.is(prevState[key], state[key]) &&
+        present === key in (prevState as object)
+      ) {
+        continue;
+      }
+      diff[key] = { prev: prevState[key], next: state[key] };
+      if (present) {
+        partial[key] = state[key];
+      } else {
+        removed = true;
+      }
+    }
+
+    lastState = state;
+    updates.push({
+      partial: removed ? state : partial,
+      timestamp: Date.now(),
+      action,
+      diff,
+      ...(removed && { replace: true }),
+    });
+    if (updates.length > limit) {
+      const [dropped] = updates.splice(0, updates.length - limit);
+
+      initialState = dropped.replace
+        ? (dropped.partial as State)
+        : { ...(initialState as State), ...dropped.partial };
+    }
+  };
+
+  const clear = () => {
+    updates = [];
+    initialState = attached?.getState();
+    lastState = initialState;
+  };
+
+  const attach = (store: SelectiveStore<State>) => {
+    unsubscribe();
+    attached = store;
+    clear();
+
+    const stop = store.subscribe(record);
+
+    unsubscribe = () => {
+      stop();
+      attached = undefined;
+      unsubscribe = () => {};
+    };
+
+    return () => {
+      if (attached === store) {
+        unsubscribe();
+      }
+    };
+  };
+
+  const getLog = (): ActionLog<State> => ({
+    version: 1,
+    initialState: initialState as State,
+    updates: [...updates],
+  });
+
+  return {
+    attach,
+    getLog,
+    exportLog: () => serialize(getLog()),
+    clear,
+  };
+};
+
+/**
+ * Re-applies a recorded log onto a store, one update at a time.
+ * The state of the store is first replaced with the initial state of the log.
+ *
+ * @param store - Store to replay onto, usually a fresh one
+ * @param log - Log from `getLog` or JSON from `exportLog`
+ * @returns Replayer applying the updates step by step
+ */
+export const replay = <State>(
+  store: SelectiveStore<State>,
+  log: ActionLog<State> | string,
+): Replayer<State> => {
+  const { initialState, updates } =
+    typeof log === 'string' ? deserialize<ActionLog<State>>(log) : log;
+  let position = 0;
+
+  if (initialState) {
+    store.replace(initialState, 'replay/init');
+  }
+
+  const step = () => {
+    const update = updates[position];
+
+    if (update) {
+      position += 1;
+      if (update.replace) {
+        store.replace(update.partial as State, update.action);
+      } else {
+        store.setState(update.partial, update.action);
+      }
+    }
+
+    return update;
+  };
+
+  return {
+    step,
+    replayAll: () => {
+      while (step());
+    },
+    get position() {
+      return position;
+    },
+    get length() {
+      return updates.length;
+    },
+  };
+};
@@ -0,0 +1,194 @@
+import {
+  createSelectiveStore,
+  type SelectiveStore,
+  type SelectiveStoreOptions,
+} from './store';
+import { pick } from './utils';
+
+export interface ScopeState<State> {
+  /** Whether the scope holds overrides that were not committed */
+  isDirty: boolean;
+  /** Keys overridden in the scope */
+  dirtyKeys: (keyof State)[];
+  /** Writes the overrides to the parent store */
+  commit: () => void;
+  /** Drops the overrides and goes back to the parent state */
+  discard: () => void;
+}
+
+export interface Scope<State> {
+  /** Store holding the parent state merged with the local overrides */
+  store: SelectiveStore<State>;
+  /** Store holding the dirty flags and the commit/discard actions */
+  status: SelectiveStore<ScopeState<State>>;
+  /** Follows parent updates until the returned function is called */
+  connect: () => () => void;
+}
+
+/**
+ * Creates a store that inherits the parent state and keeps changes to
+ * the scoped keys as local overrides until they are committed.
+ * Changes to other keys are written through to the parent.
+ *
+ * @param parent - Store to inherit from
+ * @param keys - Keys that can be overridden, defaults to every key
+ * @param overrides - Initial overrides
+ * @param options - `validate` and `onInvalid` of the scoped store; callbacks
+ * and middleware run on the parent when updates are committed or forwarded
+ * @returns Scoped store, its status store and a connect function
+ */
+export const scope = <State>(
+  parent: SelectiveStore<State>,
+  keys?: (keyof State)[],
+  overrides: Partial<State> = {},
+  options: Pick<SelectiveStoreOptions<State>, 'validate' | 'onInvalid'> = {},
+): Scope<State> => {
+  const isLocal = (key: keyof State) => !keys || keys.includes(key);
+  const dirty = new Set(
+    (Object.keys(overrides) as (keyof State)[]).filter(isLocal),
+  );
+  const store = createSelectiveStore<State>(
+    { ...parent.getState(), ...pick(overrides, [...dirty]) },
+    options,
+  );
+  let inheriting = false;
+
+  const keysOf = (...states: State[]) =>
+    new Set(
+      states.flatMap((state) => Object.keys(state as object)),
+    ) as Set<keyof State>;
+
+  // Merges the partial into the target and removes the given keys
+  const apply = (
+    target: SelectiveStore<State>,
+    partial: Partial<State>,
+    removed: (keyof State)[],
+    action: string | undefined,
+  ) => {
+    if (!removed.length) {
+      target.setState(partial, action);
+      return;
+    }
+
+    const nextState = { ...target.getState(), ...partial };
+
+    removed.forEach((key) => delete nextState[key]);
+    target.replace(nextState, action);
+  };
+
+  const updateStatus = () =>
+    status.setState({ isDirty: dirty.size > 0, dirtyKeys: [...dirty] });
+
+  // Copies the parent values of every key that is not overridden
+  const inherit = () => {
+    const parentState = parent.getState();
+    const state = store.getState();
+    const partial: Partial<State> = {};
+    const removed: (keyof State)[] = [];
+
+    for (const key of keysOf(parentState, state)) {
+      if (dirty.has(key)) {
+        continue;
+      }
+
+      if (!(key in (parentState as object))) {
+        removed.push(key);
+      } else if (!Object.is(state[key], parentState[key])) {
+        partial[key] = parentState[key];
+      }
+    }
+
+    inheriting = true;
+    try {
+      apply(store, partial, removed, 'scope/inherit');
+    } finally {
+      inheriting = false;
+    }
+  };
+
+  const status = createSelectiveStore<ScopeState<State>>({
+    isDirty: dirty.size > 0,
+    dirtyKeys: [...dirty],
+    commit: () => {
+      if (!dirty.size) {
+        return;
+      }
+
+      const state = store.getState();
+      const dirtyKeys = [...dirty];
+      const prevState = parent.getState();
+
+      // Overrides stay dirty when the parent throws or drops the update
+      apply(
+        parent,
+        pick(state, dirtyKeys),
+        dirtyKeys.filter((key) => !(key in (state as object))),
+        'scope/commit',
+      );
+
+      const parentState = parent.getState();
+
+      for (const key of dirtyKeys) {
+        const accepted =
+          key in (state as object)
+            ? !Object.is(parentState[key], prevState[key]) ||
+              Object.is(parentState[key], state[key])
+            : !(key in (parentState as object));
+
+        if (accepted) {
+          dirty.delete(key);
+        }
+      }
+
+      inherit();
+      updateStatus();
+    },
+    discard: () => {
+      dirty.clear();
+      inherit();
+      updateStatus();
+    },
+  });
+
+  store.subscribe((state, prevState, action) => {
+    if (inheriting) {
+      return;
+    }
+
+    const forwarded: Partial<State> = {};
+    const removed: (keyof State)[] = [];
+
+    for (const key of keysOf(state, prevState)) {
+      const inState = key in (state as object);
+
+      if (
+        Object.is(state[key], prevState[key]) &&
+        inState === key in (prevState as object)
+      ) {
+        continue;
+      }
+
+      if (isLocal(key)) {
+        dirty.add(key);
+      } else if (inState) {
+        forwarded[key] = state[key];
+      } else {
+        removed.push(key);
+      }
+    }
+
+    if (Object.keys(forwarded).length || removed.length) {
+      apply(parent, forwarded, removed, action);
+    }
+    updateStatus();
+  });
+
+  const connect = () => {
+    // Catches up with updates made before connecting
+    inherit();
+
+    return parent.subscribe(inherit);
+  };
+
+  return { store, status, connect };
+};
@@ -0,0 +1,60 @@
+export type Selector<State, Output> = (state: State) => Output;
+
+export type SelectorResults<Selectors extends readonly Selector<any, any>[]> = {
+  [Index in keyof Selectors]: ReturnType<Selectors[Index]>;
+};
+
+export type MemoizedSelector<State, Output> = Selector<State, Output> & {
+  /** Number of times the combiner has run */
+  recomputations: () => number;
+};
+
+/**
+ * Creates a memoized selector. The combiner only runs when one of the
+ * input selectors returns a different value, otherwise the previous
+ * result is returned so `useContext` keeps the same reference.
+ *
+ * @param inputSelectors - Selectors whose results are passed to the combiner
+ * @param combiner - Computes the output from the input results
+ * @returns Selector that can be passed directly to `useContext`
+ */
+export const createSelector = <
+  State,
+  Selectors extends readonly Selector<State, any>[],
+  Output,
+>(
+  inputSelectors: [...Selectors],
+  combiner: (...inputs: SelectorResults<Selectors>) => Output,
+): MemoizedSelector<State, Output> => {
+  let lastState: { value: State } | null = null;
+  let lastInputs: unknown[] | null = null;
+  let lastOutput: Output;
+  let recomputations = 0;
+
+  const selector = (state: State) => {
+    if (lastState && lastState.value === state) {
+      return lastOutput;
+    }
+
+    const inputs = inputSelectors.map((inputSelector) => inputSelector(state));
+
+    lastState = { value: state };
+
+    if (
+      lastInputs &&
+      inputs.every((input, index) => Object.is(input, lastInputs![index]))
+    ) {
+      return lastOutput;
+    }
+
+    lastInputs = inputs;
+    lastOutput = combiner(...(inputs as SelectorResults<Selectors>));
+    recomputations += 1;
+
+    return lastOutput;
+  };
+
+  return Object.assign(selector, {
+    recomputations: () => recomputations,
+  });
+};
@@ -0,0 +1,172 @@
+import { toKeys } from './path';
+import type { NewData, SetState } from './store';
+
+export interface SliceOptions<Name extends string, SliceState, Actions> {
+  /** Key of the slice in the combined state and actions */
+  name: Name;
+  initialState: SliceState;
+  /** Receives a setter and getter that only see the slice state */
+  actions?: (set: SetState<SliceState>, get: () => SliceState) => Actions;
+}
+
+export interface Slice<Name extends string, SliceState, Actions> {
+  name: Name;
+  initialState: SliceState;
+  actions: (set: SetState<SliceState>, get: () => SliceState) => Actions;
+}
+
+type AnySlice = Slice<string, any, any>;
+
+/** State of combined slices, keyed by slice name */
+export type CombinedState<Slices extends AnySlice[]> = {
+  [S in Slices[number] as S['name']]: S['initialState'];
+};
+
+/** Actions of combined slices, namespaced by slice name */
+export type CombinedActions<Slices extends AnySlice[]> = {
+  [S in Slices[number] as S['name']]: ReturnType<S['actions']>;
+};
+
+/**
+ * Defines a piece of state with the actions that update it.
+ *
+ * @param options - Name, initial state and actions factory of the slice
+ * @returns Slice to pass to `combineSlices`
+ */
+export const createSlice = <
+  Name extends string,
+  SliceState,
+  Actions = object,
+>({
+  name,
+  initialState,
+  actions = () => ({}) as Actions,
+}: SliceOptions<Name, SliceState, Actions>): Slice<
+  Name,
+  SliceState,
+  Actions
+> => ({ name, initialState, actions });
+
+/**
+ * Creates a setter that updates the state under `name` through the
+ * setter of the combined state.
+ *
+ * @param set - Setter of the combined state
+ * @param get - Getter of the slice state
+ * @param name - Key of the slice
+ * @param initialState - Initial state of the slice, restored by `reset`
+ */
+const sliceSetter = <State, SliceState>(
+  set: SetState<State>,
+  get: () => SliceState,
+  name: keyof State,
+  initialState: SliceState,
+): SetState<SliceState> => {
+  // Paths are typed against the slice, so the combined setter is loosely typed
+  const setRoot = set as unknown as {
+    setIn: (
+      path: (string | number)[],
+      value: unknown,
+      action?: string,
+    ) => void;
+    updateIn: (
+      path: (string | number)[],
+      updater: (value: any) => unknown,
+      action?: string,
+    ) => void;
+  };
+
+  return Object.assign(
+    (newData: NewData<SliceState>, action?: string) => {
+      const partial = typeof newData === 'function' ? newData(get()) : newData;
+
+      // Merged through a draft so unchanged values keep the slice as it is
+      set.draft((state) => {
+        Object.assign(state[name] as object, partial);
+      }, action);
+    },
+    {
+      batch: set.batch,
+      draft: (
+        recipe: (draft: SliceState) => Partial<SliceState> | void,
+        action?: string,
+      ) =>
+        set.draft((state) => {
+          const returned = recipe(state[name] as SliceState);
+
+          if (returned) {
+            Object.assign(state[name] as object, returned);
+          }
+        }, action),
+      setIn: ((path, value, action) => {
+        setRoot.setIn([name as string, ...toKeys(path)], value, action);
+      }) as SetState<SliceState>['setIn'],
+      updateIn: ((path, updater, action) => {
+        setRoot.updateIn([name as string, ...toKeys(path)], updater, action);
+      }) as SetState<SliceState>['updateIn'],
+      reset: (keys?: (keyof SliceState)[], action = 'reset') =>
+        set.draft((state) => {
+          if (!keys) {
+            state[name] = initialState as State[keyof State];
+            return;
+          }
+
+          const sliceState = state[name] as SliceState;
+
+          for (const key of keys) {
+            if (key in (initialState as object)) {
+              sliceState[key] = initialState[key];
+            } else {
+              delete sliceState[key];
+            }
+          }
+        }, action),
+      replace: (nextState: SliceState, action = 'replace') =>
+        set.draft((state) => {
+          state[name] = nextState as State[keyof State];
+        }, action),
+    },
+  );
+};
+
+/**
+ * Combines slices into the initial state and actions factory of a
+ * selective context. Each slice's actions only see their own state.
+ *
+ * @param slices - Slices with unique names
+ * @returns `initialState` and `actions` for `createSelectiveContext`
+ */
+export const combineSlices = <Slices extends AnySlice[]>(
+  ...slices: Slices
+) => {
+  type State = CombinedState<Slices>;
+
+  const initialState = Object.fromEntries(
+    slices.map((slice) => [slice.name, slice.initialState]),
+  ) as State;
+
+  const actions = (
+    set: SetState<State>,
+    get: () => State,
+  ): CombinedActions<Slices> =>
+    Object.fromEntries(
+      slices.map((slice) => {
+        const getSlice = () => get()[slice.name as keyof State];
+
+        return [
+          slice.name,
+          slice.actions(
+            sliceSetter(
+              set,
+              getSlice,
+              slice.name as keyof State,
+              slice.initialState,
+            ),
+            getSlice,
+          ),
+        ];
+      }),
+    ) as CombinedActions<Slices>;
+
+  return { initialState, actions };
+};
@@ -0,0 +1,109 @@
+import type { SelectiveStore } from './store';
+
+/** Serialized store state produced by `dehydrate` */
+export type DehydratedState = string & { readonly __dehydrated: true };
+
+const TYPE = '__type';
+
+interface Tagged {
+  [TYPE]: 'Date' | 'Map' | 'Set' | 'BigInt' | 'undefined';
+  value?: unknown;
+}
+
+// `this` is the object holding the value, so Dates are seen before toJSON
+function replacer(this: any, key: string, value: unknown) {
+  const original = this[key];
+
+  if (original instanceof Date) {
+    return { [TYPE]: 'Date', value: original.toISOString() };
+  }
+
+  if (original instanceof Map) {
+    return { [TYPE]: 'Map', value: [...original] };
+  }
+
+  if (original instanceof Set) {
+    return { [TYPE]: 'Set', value: [...original] };
+  }
+
+  if (typeof original === 'bigint') {
+    return { [TYPE]: 'BigInt', value: original.toString() };
+  }
+
+  if (original === undefined && key !== '' && !Array.isArray(this)) {
+    return { [TYPE]: 'undefined' };
+  }
+
+  return value;
+}
+
+const reviveTagged = ({ [TYPE]: type, value }: Tagged) => {
+  switch (type) {
+    case 'Date':
+      return new Date(value as string);
+    case 'Map':
+      return new Map(value as [unknown, unknown][]);
+    case 'Set':
+      return new Set(value as unknown[]);
+    case 'BigInt':
+      return BigInt(value as string);
+    default:
+      return undefined;
+  }
+};
+
+/**
+ * Serializes a value to JSON, preserving Dates, Maps, Sets, BigInts and
+ * undefined values. `<` is escaped so the result is safe inside a `<script>` tag.
+ *
+ * @param value - Value to serialize
+ */
+export const serialize = (value: unknown): string =>
+  JSON.stringify(value, replacer)
+    .replace(/</g, '\\u003c')
+    .replace(/\u2028/g, '\\u2028')
+    .replace(/\u2029/g, '\\u2029');
+
+/**
+ * Restores a value serialized with `serialize`.
+ *
+ * @param serialized - Output of `serialize`
+ */
+export const deserialize = <Value>(serialized: string): Value => {
+  const undefinedKeys: [Record<string, unknown>, string][] = [];
+  const value = JSON.parse(serialized, function (key, value) {
+    if (value && typeof value === 'object' && TYPE in value) {
+      const revived = reviveTagged(value);
+
+      // JSON.parse drops keys revived to undefined, so they are restored after
+      if (revived === undefined) {
+        undefinedKeys.push([this, key]);
+      }
+      return revived;
+    }
+    return value;
+  });
+
+  undefinedKeys.forEach(([holder, key]) => {
+    holder[key] = undefined;
+  });
+  return value;
+};
+
+/**
+ * Serializes the store state so it can be embedded into server rendered HTML.
+ *
+ * @param store - Store to serialize
+ * @returns String to pass to `<Provider dehydratedState={...}>` on the client
+ */
+export const dehydrate = <State>(
+  store: SelectiveStore<State>,
+): DehydratedState => serialize(store.getState()) as DehydratedState;
+
+/**
+ * Restores state serialized with `dehydrate`.
+ *
+ * @param dehydratedState - Output of `dehydrate`
+ */
+export const hydrate = <State>(dehydratedState: DehydratedState): State =>
+  deserialize<State>(dehydratedState);
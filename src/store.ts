@@ -0,0 +1,385 @@
+import { produce } from './draft';
+import { getIn, setIn, toKeys, type Path, type PathValue } from './path';
+import {
+  validation,
+  type StateValidationError,
+  type StateValidator,
+} from './validate';
+
+export type NewData<State> = Partial<State> | ((state: State) => Partial<State>);
+
+export interface SetState<State> {
+  (newData: NewData<State>, action?: string): void;
+  /**
+   * Applies every update made inside `fn` and notifies subscribers once.
+   * When `fn` throws, all of its updates are rolled back.
+   */
+  batch: (fn: () => void, action?: string) => void;
+  /**
+   * Runs `recipe` on a copy-on-write draft of the state. Mutations and a
+   * returned partial are combined; only the changed objects are copied.
+   * Top-level keys cannot be deleted, use `replace` or `reset` instead.
+   */
+  draft: (
+    recipe: (draft: State) => Partial<State> | void,
+    action?: string,
+  ) => void;
+  /**
+   * Replaces the value at a string (`'user.address.city'`) or tuple
+   * (`['user', 'address', 'city']`) path. Only the objects along the path
+   * are copied, so selectors on sibling branches keep their values.
+   */
+  setIn: <P extends Path<State>>(
+    path: P,
+    value: PathValue<State, P>,
+    action?: string,
+  ) => void;
+  /** Same as `setIn` with the new value computed from the current one */
+  updateIn: <P extends Path<State>>(
+    path: P,
+    updater: (value: PathValue<State, P>) => PathValue<State, P>,
+    action?: string,
+  ) => void;
+  /**
+   * Restores the initial state of the store, or only the given keys.
+   * Keys missing from the initial state are removed.
+   */
+  reset: (keys?: (keyof State)[], action?: string) => void;
+  /** Replaces the whole state instead of merging, so missing keys are removed */
+  replace: (nextState: State, action?: string) => void;
+}
+
+export type Listener<State> = (
+  state: State,
+  prevState: State,
+  action?: string,
+) => void;
+
+export interface StateChange<State> {
+  next: State;
+  prev: State;
+  /** Keys whose values differ between `prev` and `next` */
+  changedKeys: (keyof State)[];
+  /** Merged partial state of the update, or of every update in a batch */
+  partial: Partial<State>;
+  action?: string;
+}
+
+/**
+ * Applies an update. `replace` is true when `partial` is the whole next
+ * state, from `replace` or `reset`; middleware must pass it on to `next`.
+ */
+export type Commit<State> = (
+  partial: Partial<State>,
+  action?: string,
+  replace?: boolean,
+) => void;
+
+export type Middleware<State> = (store: {
+  getState: () => State;
+  setState: SetState<State>;
+}) => (next: Commit<State>) => Commit<State>;
+
+export interface SelectiveStoreOptions<State> {
+  /** Called with a JSON copy of the state after every update */
+  updateCallback?: (newState: State) => void;
+  /** Called with the previous and next state objects after every update */
+  onChange?: (change: StateChange<State>) => void;
+  /** Run in order around every update, see `Middleware` */
+  middleware?: Middleware<State>[];
+  /** Predicate or Standard Schema checked against the state of every update */
+  validate?: StateValidator<State>;
+  /** Receives updates rejected by `validate`; when omitted they throw */
+  onInvalid?: (error: StateValidationError<State>) => void;
+}
+
+export interface SliceListenerOptions<Slice> {
+  /** Compares the previous and next slice, defaults to `Object.is` */
+  equalityFn?: (a: Slice, b: Slice) => boolean;
+  /** Calls the listener with the current slice right away */
+  fireImmediately?: boolean;
+}
+
+export interface Subscribe<State> {
+  /** Calls the listener after every update */
+  (listener: Listener<State>): () => void;
+  /** Calls the listener when the slice returned by the selector changes */
+  <Slice>(
+    selector: (state: State) => Slice,
+    listener: (slice: Slice, prevSlice: Slice) => void,
+    options?: SliceListenerOptions<Slice>,
+  ): () => void;
+}
+
+export interface SelectiveStore<State> {
+  getState: () => State;
+  setState: SetState<State>;
+  batch: SetState<State>['batch'];
+  reset: SetState<State>['reset'];
+  replace: SetState<State>['replace'];
+  subscribe: Subscribe<State>;
+  destroy: () => void;
+}
+
+/**
+ * Creates a framework-agnostic store with the same update semantics as
+ * the context store. It can be used from API clients, socket handlers
+ * or router loaders and mounted into React with `<Provider store={store}>`.
+ *
+ * Updater functions are resolved first, then the partial passes through the
+ * middleware. Each middleware may inspect or transform the partial before
+ * calling `next`, skip `next` to veto the update, or run code after `next`
+ * returns, when subscribers have been notified. Inside `batch` subscribers
+ * are notified once, after the batch. Updates that do not change any value
+ * are dropped without notifying anyone, and updates rejected by `validate`
+ * leave the state unchanged. `replace` and `reset` pass the whole next
+ * state through the middleware with the `replace` flag of `Commit` set,
+ * and it replaces the state instead of being merged.
+ *
+ * @param initialState - The initial state value
+ * @param options - Store options, or an update callback called when state changes
+ * @returns Store with getState, setState, subscribe and destroy.
+ * `setState` takes an optional action name that is passed on to listeners
+ */
+export const createSelectiveStore = <State>(
+  initialState: State,
+  options: SelectiveStoreOptions<State> | ((newState: State) => void) = {},
+): SelectiveStore<State> => {
+  const {
+    updateCallback,
+    onChange,
+    middleware = [],
+    validate,
+    onInvalid,
+  } = typeof options === 'function' ? { updateCallback: options } : options;
+  let state = initialState;
+  let batchDepth = 0;
+  let batchPartial: Partial<State> = {};
+  const listeners = new Set<Listener<State>>();
+
+  const getState = () => state;
+
+  const notify = (
+    prevState: State,
+    partial: Partial<State>,
+    action?: string,
+  ) => {
+    const changedKeys = [
+      ...(Object.keys(partial) as (keyof State)[]).filter(
+        (key) =>
+          !Object.is(prevState[key], state[key]) ||
+          !(key in (prevState as object)),
+      ),
+      // Keys removed by `replace`
+      ...(Object.keys(prevState as object) as (keyof State)[]).filter(
+        (key) => !(key in (state as object)),
+      ),
+    ];
+
+    // Updates that change nothing are not reported
+    if (!changedKeys.length) {
+      state = prevState;
+      return;
+    }
+
+    listeners.forEach((listener) => listener(state, prevState, action));
+    // Silently handle callback errors to prevent breaking the app
+    try {
+      onChange?.({
+        next: state,
+        prev: prevState,
+        changedKeys,
+        partial,
+        action,
+      });
+    } catch (error) {
+      console.error('Change callback error:', error);
+    }
+    try {
+      updateCallback?.(JSON.parse(JSON.stringify(state)));
+    } catch (error) {
+      console.error('Update callback error:', error);
+    }
+  };
+
+  const commit: Commit<State> = (partial, action, replace) => {
+    const prevState = state;
+
+    state = replace ? (partial as State) : { ...state, ...partial };
+    if (batchDepth) {
+      batchPartial = { ...batchPartial, ...partial };
+    } else {
+      notify(prevState, partial, action);
+    }
+  };
+
+  const batch = (fn: () => void, action = 'batch') => {
+    const prevState = state;
+    const prevPartial = batchPartial;
+
+    batchDepth += 1;
+    try {
+      fn();
+    } catch (error) {
+      state = prevState;
+      batchPartial = prevPartial;
+      throw error;
+    } finally {
+      batchDepth -= 1;
+    }
+
+    if (!batchDepth) {
+      const partial = batchPartial;
+
+      batchPartial = {};
+      notify(prevState, partial, action);
+    }
+  };
+
+  const setPath = (
+    path: string | (string | number)[],
+    value: unknown,
+    action?: string,
+  ) => {
+    const [key, ...rest] = toKeys(path);
+    const current = (state as Record<string | number, unknown>)[key];
+
+    pipeline({ [key]: setIn(current, rest, value) } as Partial<State>, action);
+  };
+
+  // Mutations of the draft and the returned partial are combined
+  const draft = (
+    recipe: (draft: State) => Partial<State> | void,
+    action?: string,
+  ) => {
+    const { next, returned } = produce(state, recipe);
+
+    if (next !== state) {
+      const removed = Object.keys(state as object).filter(
+        (key) => !(key in (next as object)),
+      );
+
+      if (removed.length) {
+        throw new Error(
+          `Top-level keys cannot be deleted from a draft (${removed.join(', ')})` +
+            ', use replace or reset instead',
+        );
+      }
+    }
+
+    const drafted = (
+      next === state ? [] : (Object.keys(next as object) as (keyof State)[])
+    ).reduce<Partial<State>>(
+      (partial, key) =>
+        Object.is(next[key], state[key])
+          ? partial
+          : { ...partial, [key]: next[key] },
+      {},
+    );
+
+    pipeline(
+      typeof returned === 'object' && returned !== null
+        ? { ...drafted, ...returned }
+        : drafted,
+      action,
+    );
+  };
+
+  const replace = (nextState: State, action = 'replace') =>
+    pipeline(nextState, action, true);
+
+  const reset = (keys?: (keyof State)[], action = 'reset') => {
+    if (!keys) {
+      replace(initialState, action);
+      return;
+    }
+
+    const nextState = { ...state };
+
+    for (const key of keys) {
+      if (key in (initialState as object)) {
+        nextState[key] = initialState[key];
+      } else {
+        delete nextState[key];
+      }
+    }
+
+    replace(nextState, action);
+  };
+
+  const setState = Object.assign(
+    (newData: NewData<State>, action?: string) => {
+      const partial = typeof newData === 'function' ? newData(state) : newData;
+
+      pipeline(partial, action);
+    },
+    {
+      batch,
+      draft,
+      setIn: setPath as SetState<State>['setIn'],
+      updateIn: ((path, updater, action) => {
+        setPath(path, updater(getIn(state, toKeys(path))), action);
+      }) as SetState<State>['updateIn'],
+      reset,
+      replace,
+    },
+  );
+
+  // Validation runs last so it sees the partial after every middleware
+  const pipeline = [
+    ...middleware,
+    ...(validate ? [validation(validate, onInvalid)] : []),
+  ].reduceRight<Commit<State>>(
+    (next, current) => current({ getState, setState })(next),
+    commit,
+  );
+
+  const addListener = (listener: Listener<State>) => {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  };
+
+  const subscribe: Subscribe<State> = <Slice>(
+    listenerOrSelector: Listener<State> | ((state: State) => Slice),
+    sliceListener?: (slice: Slice, prevSlice: Slice) => void,
+    { equalityFn = Object.is, fireImmediately }: SliceListenerOptions<Slice> = {},
+  ) => {
+    if (!sliceListener) {
+      return addListener(listenerOrSelector as Listener<State>);
+    }
+
+    const selector = listenerOrSelector as (state: State) => Slice;
+    let slice = selector(state);
+
+    if (fireImmediately) {
+      sliceListener(slice, slice);
+    }
+
+    return addListener((nextState) => {
+      const nextSlice = selector(nextState);
+
+      if (!equalityFn(slice, nextSlice)) {
+        const prevSlice = slice;
+
+        slice = nextSlice;
+        sliceListener(nextSlice, prevSlice);
+      }
+    });
+  };
+
+  const destroy = () => {
+    listeners.clear();
+  };
+
+  return {
+    getState,
+    setState,
+    batch,
+    reset,
+    replace,
+    subscribe,
+    destroy,
+  };
+};
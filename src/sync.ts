@@ -0,0 +1,185 @@
+import { deserialize, serialize } from './ssr';
+import type { SelectiveStore } from './store';
+import { pick } from './utils';
+
+export interface SyncMessage<State> {
+  /** Id of the store that sent the message */
+  source: string;
+  partial: Partial<State>;
+  timestamp: number;
+}
+
+export interface SyncChannel {
+  send: (message: SyncMessage<any>) => void;
+  subscribe: (listener: (message: SyncMessage<any>) => void) => () => void;
+  close: () => void;
+}
+
+export type SyncConflictResolver<State> = <Key extends keyof State>(
+  key: Key,
+  local: State[Key],
+  remote: State[Key],
+) => State[Key];
+
+export interface SyncOptions<State> {
+  /** Channel name shared by the synchronized tabs */
+  name: string;
+  /** Keys to synchronize, defaults to the whole state */
+  keys?: (keyof State)[];
+  /**
+   * Resolves a remote change of a key that was also changed locally after
+   * the remote change was made. 'last-write-wins' (default) keeps the newer
+   * local value, 'remote-wins' always applies the remote value.
+   */
+  conflict?: 'last-write-wins' | 'remote-wins' | SyncConflictResolver<State>;
+  /** Creates the channel, defaults to BroadcastChannel or the storage event */
+  channel?: (name: string) => SyncChannel;
+}
+
+const createBroadcastChannel = (name: string): SyncChannel => {
+  const channel = new BroadcastChannel(name);
+
+  return {
+    send: (message) => channel.postMessage(message),
+    subscribe: (listener) => {
+      const onMessage = (event: MessageEvent) => listener(event.data);
+
+      channel.addEventListener('message', onMessage);
+      return () => channel.removeEventListener('message', onMessage);
+    },
+    close: () => channel.close(),
+  };
+};
+
+// The storage event only fires in the other tabs of the same origin
+const createStorageChannel = (name: string): SyncChannel => ({
+  send: (message) => {
+    try {
+      localStorage.setItem(name, serialize(message));
+    } catch (error) {
+      console.error('Sync send error:', error);
+    }
+  },
+  subscribe: (listener) => {
+    const onStorage = (event: StorageEvent) => {
+      if (event.key === name && event.newValue) {
+        listener(deserialize(event.newValue));
+      }
+    };
+
+    window.addEventListener('storage', onStorage);
+    return () => window.removeEventListener('storage', onStorage);
+  },
+  close: () => {},
+});
+
+const createDefaultChannel = (name: string): SyncChannel | null => {
+  if (typeof BroadcastChannel !== 'undefined') {
+    return createBroadcastChannel(name);
+  }
+
+  if (typeof window !== 'undefined' && window.localStorage) {
+    return createStorageChannel(name);
+  }
+
+  return null;
+};
+
+/**
+ * Broadcasts changes of the synchronized keys to other tabs and applies
+ * their changes to the store without sending them back.
+ *
+ * @param store - Store to synchronize
+ * @param options - Channel name, keys, conflict strategy and channel factory
+ * @returns Function that stops the synchronization
+ */
+export const sync = <State>(
+  store: SelectiveStore<State>,
+  options: SyncOptions<State>,
+) => {
+  const { name, keys, conflict = 'last-write-wins' } = options;
+  const channel = options.channel
+    ? options.channel(name)
+    : createDefaultChannel(name);
+
+  if (!channel) {
+    return () => {};
+  }
+
+  const source = Math.random().toString(36).slice(2);
+  const updatedAt = new Map<keyof State, number>();
+  let applying = false;
+
+  const isSynced = (key: keyof State) => !keys || keys.includes(key);
+
+  const send = (partial: Partial<State>) =>
+    channel.send({ source, partial, timestamp: Date.now() });
+
+  const unsubscribeStore = store.subscribe((state, prevState, action) => {
+    // Every tab restores its own persisted state and travels in its devtools
+    if (
+      applying ||
+      action?.startsWith('persist/') ||
+      action?.startsWith('devtools/')
+    ) {
+      return;
+    }
+
+    const now = Date.now();
+    const stateKeys = Object.keys(state as object) as (keyof State)[];
+    const changedKeys = stateKeys.filter(
+      (key) => isSynced(key) && !Object.is(state[key], prevState[key]),
+    );
+
+    changedKeys.forEach((key) => updatedAt.set(key, now));
+    if (changedKeys.length) {
+      send(pick(state, changedKeys));
+    }
+  });
+
+  const receive = (message: SyncMessage<State>) => {
+    if (message.source === source) {
+      return;
+    }
+
+    const state = store.getState();
+    const partial: Partial<State> = {};
+    const resolved: Partial<State> = {};
+
+    (Object.keys(message.partial) as (keyof State)[])
+      .filter(isSynced)
+      .forEach((key) => {
+        const remote = message.partial[key] as State[keyof State];
+        const hasConflict = (updatedAt.get(key) ?? 0) > message.timestamp;
+
+        if (!hasConflict || conflict === 'remote-wins') {
+          partial[key] = remote;
+        } else if (typeof conflict === 'function') {
+          partial[key] = conflict(key, state[key], remote);
+          if (!Object.is(partial[key], remote)) {
+            resolved[key] = partial[key];
+          }
+        }
+      });
+
+    applying = true;
+    try {
+      store.setState(partial, 'sync/receive');
+    } finally {
+      applying = false;
+    }
+
+    // Resolved values are sent so the other tabs converge on them
+    if (Object.keys(resolved).length) {
+      send(resolved);
+    }
+  };
+
+  const unsubscribeChannel = channel.subscribe(receive);
+
+  return () => {
+    unsubscribeStore();
+    unsubscribeChannel();
+    channel.close();
+  };
+};
@@ -0,0 +1,287 @@
+import {
+  Profiler,
+  useEffect,
+  type ComponentType,
+  type ReactNode,
+} from 'react';
+import {
+  act,
+  render,
+  renderHook,
+  type RenderOptions,
+} from '@testing-library/react';
+
+import type { EqualityFn } from './hooks';
+import type { SelectiveStore, SetState } from './store';
+
+/** The parts of a `createSelectiveContext` result used by the helpers */
+export interface TestableContext<State> {
+  Provider: ComponentType<{
+    children: ReactNode;
+    store?: SelectiveStore<State>;
+  }>;
+  createStore: (initialData?: Partial<State>) => SelectiveStore<State>;
+  useContext: <Output>(
+    selector: (state: State) => Output,
+    equalityFn?: EqualityFn<Output>,
+  ) => [Output, SetState<State>];
+}
+
+export interface ContextRenderOptions<State>
+  extends Omit<RenderOptions, 'wrapper' | 'queries'> {
+  context: TestableContext<State>;
+  /** Overrides of the context initial state */
+  initialState?: Partial<State>;
+  /** Renders an existing store instead of creating one */
+  store?: SelectiveStore<State>;
+}
+
+export interface StoreUpdate<State> {
+  state: State;
+  prevState: State;
+  action?: string;
+  /** Keys whose values differ between `prevState` and `state` */
+  changedKeys: (keyof State)[];
+}
+
+export interface StoreSpy<State> {
+  /** Every update since the spy was created or cleared */
+  readonly updates: StoreUpdate<State>[];
+  /** Action names of the recorded updates */
+  readonly actions: (string | undefined)[];
+  clear: () => void;
+  /** Stops recording */
+  restore: () => void;
+}
+
+export interface RenderCounter {
+  /** Counts a render of `name`; call it in the component body */
+  track: (name: string) => void;
+  /**
+   * Wraps a component so every commit of its subtree is counted under
+   * `name`, including re-renders of descendants that subscribe on their own
+   */
+  wrap: <Props extends object>(
+    Component: ComponentType<Props>,
+    name: string,
+  ) => ComponentType<Props>;
+  /** Renders counted for `name` */
+  get: (name: string) => number;
+  /** Renders counted per name */
+  counts: () => Record<string, number>;
+  reset: () => void;
+}
+
+/**
+ * Creates a setter that applies updates inside `act`, so components
+ * are re-rendered before the next assertion.
+ *
+ * @param store - Store to update
+ */
+const actSetter = <State,>(store: SelectiveStore<State>): SetState<State> =>
+  Object.assign(
+    (...args: Parameters<SetState<State>>) => {
+      act(() => store.setState(...args));
+    },
+    {
+      batch: ((fn, action) => {
+        act(() => store.setState.batch(fn, action));
+      }) as SetState<State>['batch'],
+      draft: ((recipe, action) => {
+        act(() => store.setState.draft(recipe, action));
+      }) as SetState<State>['draft'],
+      setIn: ((path, value, action) => {
+        act(() => store.setState.setIn(path, value, action));
+      }) as SetState<State>['setIn'],
+      updateIn: ((path, updater, action) => {
+        act(() => store.setState.updateIn(path, updater, action));
+      }) as SetState<State>['updateIn'],
+      reset: ((keys, action) => {
+        act(() => store.setState.reset(keys, action));
+      }) as SetState<State>['reset'],
+      replace: ((nextState, action) => {
+        act(() => store.setState.replace(nextState, action));
+      }) as SetState<State>['replace'],
+    },
+  );
+
+/**
+ * Creates a wrapper rendering the Provider with the store. A store created
+ * by the helper is destroyed once the wrapper unmounts, closing its sync
+ * channel and devtools connection.
+ *
+ * @param Provider - Provider of the context
+ * @param store - Store to mount
+ * @param owned - Whether the helper created the store
+ */
+const storeWrapper = <State,>(
+  Provider: TestableContext<State>['Provider'],
+  store: SelectiveStore<State>,
+  owned: boolean,
+) => {
+  let mounts = 0;
+
+  const Wrapper = ({ children }: { children: ReactNode }) => {
+    useEffect(() => {
+      if (!owned) {
+        return;
+      }
+
+      mounts += 1;
+
+      return () => {
+        mounts -= 1;
+        // Deferred so the immediate remount of StrictMode keeps the store
+        queueMicrotask(() => {
+          if (!mounts) {
+            store.destroy();
+          }
+        });
+      };
+    }, []);
+
+    return <Provider store={store}>{children}</Provider>;
+  };
+
+  return Wrapper;
+};
+
+/**
+ * Renders the UI inside the context Provider.
+ *
+ * @param ui - Element to render
+ * @param options - Context, initial state overrides or store, and render options
+ * @returns The render result with the store and an act-wrapped setter
+ */
+export const renderWithContext = <State,>(
+  ui: ReactNode,
+  { context, initialState, store, ...options }: ContextRenderOptions<State>,
+) => {
+  const { Provider } = context;
+  const contextStore = store ?? context.createStore(initialState);
+
+  const result = render(ui, {
+    ...options,
+    wrapper: storeWrapper(Provider, contextStore, !store),
+  });
+
+  return { ...result, store: contextStore, setState: actSetter(contextStore) };
+};
+
+/**
+ * Renders `useContext(selector)` inside the context Provider.
+ *
+ * @param context - Result of `createSelectiveContext`
+ * @param selector - Selector passed to `useContext`
+ * @param options - Initial state overrides or store, and equality function
+ * @returns `result.current` holding the selected value, the store and an
+ * act-wrapped setter
+ */
+export const renderContextHook = <State, Output>(
+  context: TestableContext<State>,
+  selector: (state: State) => Output,
+  {
+    initialState,
+    store,
+    equalityFn,
+  }: {
+    initialState?: Partial<State>;
+    store?: SelectiveStore<State>;
+    equalityFn?: EqualityFn<Output>;
+  } = {},
+) => {
+  const { Provider, useContext } = context;
+  const contextStore = store ?? context.createStore(initialState);
+
+  const { result, rerender, unmount } = renderHook(
+    () => useContext(selector, equalityFn)[0],
+    { wrapper: storeWrapper(Provider, contextStore, !store) },
+  );
+
+  return {
+    result,
+    rerender,
+    unmount,
+    store: contextStore,
+    setState: actSetter(contextStore),
+  };
+};
+
+/**
+ * Records every update of a store.
+ *
+ * @param store - Store to watch
+ * @returns Spy with the recorded updates
+ */
+export const spyOnStore = <State,>(
+  store: SelectiveStore<State>,
+): StoreSpy<State> => {
+  let updates: StoreUpdate<State>[] = [];
+
+  const unsubscribe = store.subscribe((state, prevState, action) => {
+    updates.push({
+      state,
+      prevState,
+      action,
+      changedKeys: [
+        ...new Set([
+          ...(Object.keys(prevState as object) as (keyof State)[]),
+          ...(Object.keys(state as object) as (keyof State)[]),
+        ]),
+      ].filter(
+        (key) =>
+          !Object.is(state[key], prevState[key]) ||
+          key in (state as object) !== key in (prevState as object),
+      ),
+    });
+  });
+
+  return {
+    get updates() {
+      return updates;
+    },
+    get actions() {
+      return updates.map((update) => update.action);
+    },
+    clear: () => {
+      updates = [];
+    },
+    restore: unsubscribe,
+  };
+};
+
+/**
+ * Counts renders per component name.
+ *
+ * @returns Counter to track renders with and assert on
+ */
+export const createRenderCounter = (): RenderCounter => {
+  let renders: Record<string, number> = {};
+
+  const track = (name: string) => {
+    renders[name] = (renders[name] ?? 0) + 1;
+  };
+
+  return {
+    track,
+    wrap: <Props extends object>(
+      Component: ComponentType<Props>,
+      name: string,
+    ) => {
+      const Counted = (props: Props) => (
+        <Profiler id={name} onRender={() => track(name)}>
+          <Component {...props} />
+        </Profiler>
+      );
+
+      Counted.displayName = `Counted(${name})`;
+
+      return Counted;
+    },
+    get: (name) => renders[name] ?? 0,
+    counts: () => ({ ...renders }),
+    reset: () => {
+      renders = {};
+    },
+  };
+};
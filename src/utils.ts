@@ -0,0 +1,18 @@
+/**
+ * Copies the given keys of a state object, or returns the state
+ * itself when no keys are given.
+ *
+ * @param state - Source state
+ * @param keys - Keys to copy
+ */
+export const pick = <State>(
+  state: Partial<State>,
+  keys?: (keyof State)[],
+): Partial<State> =>
+  keys
+    ? keys.reduce<Partial<State>>(
+        (result, key) =>
+          key in (state as object) ? { ...result, [key]: state[key] } : result,
+        {},
+      )
+    : state;
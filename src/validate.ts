@@ -0,0 +1,125 @@
+import type { Middleware } from './store';
+
+/** Issue reported by a Standard Schema validator */
+export interface StandardSchemaIssue {
+  message: string;
+  path?: readonly (PropertyKey | { key: PropertyKey })[];
+}
+
+/**
+ * The `~standard` interface implemented by zod, valibot, arktype and
+ * other schema libraries, see https://standardschema.dev
+ */
+export interface StandardSchema<State> {
+  readonly '~standard': {
+    readonly version: 1;
+    readonly vendor: string;
+    readonly validate: (
+      value: unknown,
+    ) =>
+      | { value: State; issues?: undefined }
+      | { issues: readonly StandardSchemaIssue[] }
+      | Promise<unknown>;
+  };
+}
+
+/** Predicate returning whether a state is valid, or a Standard Schema */
+export type StateValidator<State> =
+  | ((state: State) => boolean)
+  | StandardSchema<State>;
+
+/**
+ * Thrown, or passed to `onInvalid`, when an update would produce an
+ * invalid state. The store keeps its previous state.
+ */
+export class StateValidationError<State> extends Error {
+  /** State the update would have produced */
+  readonly state: State;
+  /** Partial state of the rejected update */
+  readonly partial: Partial<State>;
+  readonly action?: string;
+  /** Issues reported by the schema, empty for predicates */
+  readonly issues: readonly StandardSchemaIssue[];
+
+  constructor(
+    state: State,
+    partial: Partial<State>,
+    action: string | undefined,
+    issues: readonly StandardSchemaIssue[],
+  ) {
+    super(
+      `Invalid state update${action ? ` "${action}"` : ''}` +
+        (issues.length
+          ? `: ${issues.map((issue) => issue.message).join(', ')}`
+          : ''),
+    );
+    this.name = 'StateValidationError';
+    this.state = state;
+    this.partial = partial;
+    this.action = action;
+    this.issues = issues;
+  }
+}
+
+/**
+ * Returns the issues found in the state, or undefined when it is valid.
+ *
+ * @param validator - Predicate or Standard Schema
+ * @param state - Candidate state
+ */
+const check = <State>(
+  validator: StateValidator<State>,
+  state: State,
+): readonly StandardSchemaIssue[] | undefined => {
+  if (typeof validator === 'function') {
+    return validator(state) ? undefined : [];
+  }
+
+  const result = validator['~standard'].validate(state);
+
+  if (result instanceof Promise) {
+    throw new Error('Asynchronous schemas are not supported');
+  }
+
+  return result.issues;
+};
+
+/**
+ * Creates a middleware that validates the state each update would
+ * produce and drops the update when it is invalid. Devtools time travel,
+ * tagged with `devtools/*` actions, is not validated.
+ *
+ * @param validator - Predicate or Standard Schema
+ * @param onInvalid - Receives rejected updates; when omitted they throw
+ */
+export const validation =
+  <State>(
+    validator: StateValidator<State>,
+    onInvalid?: (error: StateValidationError<State>) => void,
+  ): Middleware<State> =>
+  ({ getState }) =>
+  (next) =>
+  (partial, action, replace) => {
+    if (action?.startsWith('devtools/')) {
+      next(partial, action, replace);
+      return;
+    }
+
+    const state = replace
+      ? (partial as State)
+      : { ...getState(), ...partial };
+    const issues = check(validator, state);
+
+    if (!issues) {
+      next(partial, action, replace);
+      return;
+    }
+
+    const error = new StateValidationError(state, partial, action, issues);
+
+    if (!onInvalid) {
+      throw error;
+    }
+
+    onInvalid(error);
+  };
@@ -15,13 +15,23 @@ export default defineConfig({
   ],
   build: {
     lib: {
-      entry: resolve(__dirname, 'src/index.tsx'),
+      entry: {
+        index: resolve(__dirname, 'src/index.tsx'),
+        testing: resolve(__dirname, 'src/testing.tsx'),
+      },
       name: 'CreateSelectiveContext',
-      fileName: 'index',
+      fileName: (format, entryName) =>
+        `${entryName}.${format === 'es' ? 'mjs' : 'js'}`,
       formats: ['es', 'cjs'],
     },
     rollupOptions: {
-      external: ['react', /^react\/.*/, 'react-dom', /react-dom\/.*/],
+      external: [
+        'react',
+        /^react\/.*/,
+        'react-dom',
+        /react-dom\/.*/,
+        '@testing-library/react',
+      ],
       output: {
         globals: {
           react: 'React',